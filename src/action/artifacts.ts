@@ -0,0 +1,138 @@
+import { mkdtemp } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { DefaultArtifactClient } from "@actions/artifact";
+import * as core from "@actions/core";
+import * as github from "@actions/github";
+
+import type { Action, RunReport } from "@moonrepo/types";
+
+import {
+  categoryOf,
+  fileExists,
+  findReportPath,
+  findShardReports,
+  isFlakyTask,
+  PROJECT_GRAPH_CACHE_FILES,
+  type RunTaskAction,
+  readReport,
+  resolveTaskLogs,
+  type ShardReport,
+} from "../index.js";
+import { defaultBranch } from "./context.js";
+
+/** Finds the newest baseline artifact uploaded from the default branch, and downloads the report in it. */
+async function downloadBaselineReport(artifactName: string, accessToken: string): Promise<RunReport | null> {
+  const octokit = github.getOctokit(accessToken);
+  const { repo } = github.context;
+  const branch = defaultBranch();
+
+  const { data } = await octokit.rest.actions.listArtifactsForRepo({ ...repo, name: artifactName, per_page: 100 });
+  const artifact = data.artifacts.find(
+    (candidate) => !candidate.expired && (!branch || candidate.workflow_run?.head_branch === branch),
+  );
+  const workflowRunId = artifact?.workflow_run?.id;
+
+  if (!artifact || !workflowRunId) {
+    core.warning(`No baseline artifact named ${artifactName} found, failures will not be compared to a baseline.`);
+    return null;
+  }
+
+  core.debug(`Downloading baseline artifact #${artifact.id} from workflow run #${workflowRunId}`);
+  const downloadPath = await mkdtemp(path.join(os.tmpdir(), "moon-ci-baseline-"));
+  await new DefaultArtifactClient().downloadArtifact(artifact.id, {
+    path: downloadPath,
+    findBy: { token: accessToken, workflowRunId, repositoryOwner: repo.owner, repositoryName: repo.repo },
+  });
+
+  const reportPath = await findReportPath(downloadPath);
+  if (!reportPath) {
+    core.warning(`Baseline artifact ${artifactName} does not contain a run report.`);
+    return null;
+  }
+
+  return readReport(reportPath);
+}
+
+/** Loads the baseline report from a path if it exists, or from the newest artifact with that name otherwise. */
+export async function loadBaselineReport(source: string, accessToken: string): Promise<RunReport | null> {
+  if (!source) {
+    return null;
+  }
+
+  try {
+    if (await fileExists(source)) {
+      core.debug(`Using baseline report at ${source}`);
+      return await readReport(source);
+    }
+
+    return await downloadBaselineReport(source, accessToken);
+  } catch (error: unknown) {
+    core.warning(`Failed to load baseline report ${source}: ${String(error)}`);
+    return null;
+  }
+}
+
+/** Uploads the run report as an artifact, so that later runs can use it as their baseline. */
+export async function uploadBaselineReport(artifactName: string, reportPath: string): Promise<void> {
+  const branch = defaultBranch();
+  if (!branch || github.context.ref !== `refs/heads/${branch}`) {
+    core.debug(`Not on the default branch, skipping upload of baseline artifact ${artifactName}`);
+    return;
+  }
+
+  try {
+    await new DefaultArtifactClient().uploadArtifact(artifactName, [reportPath], path.dirname(reportPath));
+    core.info(`Uploaded run report as baseline artifact ${artifactName}.`);
+  } catch (error: unknown) {
+    core.warning(`Failed to upload baseline artifact ${artifactName}: ${String(error)}`);
+  }
+}
+
+/**
+ * Uploads the run report with the logs of every task the summary lists, e.g. failed, allowed to fail or flaky, for an
+ * `aggregate` job to combine with the other shards.
+ */
+export async function uploadShardReport(
+  artifactPrefix: string,
+  workspaceRoot: string,
+  reportPath: string,
+  report: RunReport,
+): Promise<void> {
+  const artifactName = `${artifactPrefix}-${core.getInput("job-group") || "all"}`;
+  const listedTasks = report.actions.filter(
+    (action: Action) => categoryOf(action) !== null || isFlakyTask(action),
+  ) as RunTaskAction[];
+  const logFiles = await Promise.all(
+    listedTasks.map(async (action) => (await resolveTaskLogs(workspaceRoot, action)).files),
+  );
+  const candidates = [
+    reportPath,
+    ...PROJECT_GRAPH_CACHE_FILES.map((fileName) => path.join(workspaceRoot, ".moon/cache", fileName)),
+    ...logFiles.flat(),
+  ];
+  const existing = await Promise.all(candidates.map(fileExists));
+  const files = candidates.filter((_, index) => existing[index]);
+
+  try {
+    await new DefaultArtifactClient().uploadArtifact(artifactName, files, workspaceRoot);
+    core.info(`Uploaded run report as shard artifact ${artifactName}.`);
+  } catch (error: unknown) {
+    core.warning(`Failed to upload shard artifact ${artifactName}: ${String(error)}`);
+  }
+}
+
+/** Downloads the shard artifacts uploaded by the other jobs of this workflow run. */
+export async function downloadShardReports(prefix: string): Promise<ShardReport[]> {
+  const client = new DefaultArtifactClient();
+  const { artifacts } = await client.listArtifacts({ latest: true });
+  const directory = await mkdtemp(path.join(os.tmpdir(), "moon-ci-shards-"));
+
+  for (const artifact of artifacts.filter(({ name }) => name.startsWith(prefix))) {
+    core.debug(`Downloading shard artifact ${artifact.name}`);
+    await client.downloadArtifact(artifact.id, { path: path.join(directory, artifact.name) });
+  }
+
+  return findShardReports(directory, prefix);
+}
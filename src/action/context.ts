@@ -0,0 +1,70 @@
+import * as github from "@actions/github";
+
+import type { HistoryBranches } from "../index.js";
+
+export function defaultBranch(): string | undefined {
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  return github.context.payload.repository?.["default_branch"] as string | undefined;
+}
+
+/** Branch of the run, the head branch of pull and merge requests. */
+function currentBranch(): string {
+  const { env } = process;
+  return (
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    env["GITHUB_HEAD_REF"] ||
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    env["GITHUB_REF_NAME"] ||
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    env["CI_MERGE_REQUEST_SOURCE_BRANCH_NAME"] ||
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    env["CI_COMMIT_REF_NAME"] ||
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    env["BITBUCKET_BRANCH"] ||
+    ""
+  );
+}
+
+export function historyBranches(): HistoryBranches {
+  return {
+    branch: currentBranch(),
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    defaultBranch: defaultBranch() || process.env["CI_DEFAULT_BRANCH"] || "main",
+  };
+}
+
+/** Commit the run is for, the head of the pull request rather than the merge commit checked out for it. */
+export function headSha(): string {
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  const sha: string = github.context.payload.pull_request?.["head"]?.sha ?? github.context.sha;
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  return sha || process.env["CI_COMMIT_SHA"] || process.env["BITBUCKET_COMMIT"] || "";
+}
+
+/** Link to the workflow run, `null` when the run isn't known. */
+export function runUrl(): string | null {
+  const { serverUrl, runId } = github.context;
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  const repository = process.env["GITHUB_REPOSITORY"];
+
+  return repository && runId ? `${serverUrl}/${repository}/actions/runs/${runId}` : null;
+}
+
+/** Author of the commit the run is for, falling back to the user that triggered the run. */
+export function commitAuthor(): string | null {
+  const { payload } = github.context;
+  const author: string | undefined =
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    payload["head_commit"]?.author?.name ??
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    payload["merge_group"]?.head_commit?.author?.name ??
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    payload.pull_request?.["user"]?.login;
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  return author || process.env["CI_COMMIT_AUTHOR"] || process.env["GITHUB_ACTOR"] || null;
+}
+
+/** Whether the run is for the default branch, or for a merge queue merging into it. */
+export function isDefaultBranchRun({ branch, defaultBranch }: HistoryBranches): boolean {
+  return branch === defaultBranch || branch.startsWith(`gh-readonly-queue/${defaultBranch}/`);
+}
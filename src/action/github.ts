@@ -0,0 +1,255 @@
+import * as core from "@actions/core";
+import * as github from "@actions/github";
+
+import type { Action, ActionStatus, RunReport } from "@moonrepo/types";
+
+import {
+  type AggregateResult,
+  bitbucketEnvironment,
+  bitbucketPlatform,
+  type CheckRun,
+  type FailedTaskInfo,
+  gitLabEnvironment,
+  gitLabPlatform,
+  parseTarget,
+  type ReviewPlatform,
+  type RunTaskAction,
+  withRateLimitRetries,
+} from "../index.js";
+import { headSha } from "./context.js";
+import type { PlatformChoice } from "./inputs.js";
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** Posts comments on GitHub pull requests, or the issue the workflow runs for. */
+function gitHubPlatform(octokit: Octokit): ReviewPlatform {
+  const { repo } = github.context;
+
+  return {
+    name: "GitHub",
+
+    async resolveChangeRequest() {
+      const { pull_request: pr, issue } = github.context.payload;
+      const id = pr?.number ?? issue?.number;
+      if (id) {
+        return id;
+      }
+
+      core.debug("No pull request or issue found from context, trying to find pull requests associated with commit");
+      const { data: pullRequests } = await withRateLimitRetries("finding the pull request", () =>
+        octokit.rest.repos.listPullRequestsAssociatedWithCommit({ ...repo, commit_sha: github.context.sha }),
+      );
+      return pullRequests[0]?.number ?? null;
+    },
+
+    async listNotes(prNumber) {
+      const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+        ...repo,
+        issue_number: prNumber,
+        per_page: 100,
+      });
+      return comments.map(({ id, node_id, body }) => ({ id, nodeId: node_id, body: body ?? "" }));
+    },
+
+    createNote: (prNumber, body) => octokit.rest.issues.createComment({ ...repo, body, issue_number: prNumber }),
+
+    updateNote: (_prNumber, comment, body) =>
+      octokit.rest.issues.updateComment({ ...repo, body, comment_id: comment.id }),
+
+    deleteNote: (_prNumber, comment) => octokit.rest.issues.deleteComment({ ...repo, comment_id: comment.id }),
+
+    setNoteHidden: (_prNumber, comment, hidden) =>
+      octokit.graphql(
+        hidden
+          ? "mutation($id: ID!) { minimizeComment(input: { subjectId: $id, classifier: OUTDATED }) { clientMutationId } }"
+          : "mutation($id: ID!) { unminimizeComment(input: { subjectId: $id }) { clientMutationId } }",
+        { id: comment.nodeId },
+      ),
+
+    async hiddenNoteIds(comments) {
+      const hidden = new Set<number>();
+      // The REST API doesn't tell whether a comment is minimized, and GraphQL looks up at most 100 nodes at once
+      for (let start = 0; start < comments.length; start += 100) {
+        const batch = comments.slice(start, start + 100);
+        const { nodes } = await octokit.graphql<{ nodes: Array<{ id?: string; isMinimized?: boolean } | null> }>(
+          "query($ids: [ID!]!) { nodes(ids: $ids) { ... on IssueComment { id isMinimized } } }",
+          { ids: batch.map(({ nodeId }) => nodeId) },
+        );
+        for (const node of nodes) {
+          const comment = batch.find(({ nodeId }) => nodeId === node?.id);
+          if (comment && node?.isMinimized) {
+            hidden.add(comment.id);
+          }
+        }
+      }
+      return hidden;
+    },
+  };
+}
+
+/**
+ * Platform the comments are posted to: GitLab or Bitbucket when running in their CI, and GitHub otherwise. `null`
+ * outside of CI.
+ */
+export function getReviewPlatform(choice: PlatformChoice, accessToken: string): ReviewPlatform | null {
+  const gitLab = gitLabEnvironment();
+  if (choice === "gitlab" || (choice === "auto" && gitLab)) {
+    if (!gitLab) {
+      throw new Error("The `gitlab` platform requires the `CI_API_V4_URL` and `CI_PROJECT_ID` variables of GitLab CI.");
+    }
+    return gitLabPlatform(gitLab, accessToken);
+  }
+
+  const bitbucket = bitbucketEnvironment();
+  if (choice === "bitbucket" || (choice === "auto" && bitbucket)) {
+    if (!bitbucket) {
+      throw new Error(
+        "The `bitbucket` platform requires the `BITBUCKET_WORKSPACE` and `BITBUCKET_REPO_SLUG` variables of Bitbucket Pipelines.",
+      );
+    }
+    return bitbucketPlatform(bitbucket, accessToken);
+  }
+
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  return process.env["GITHUB_REPOSITORY"] ? gitHubPlatform(github.getOctokit(accessToken)) : null;
+}
+
+/** Annotations the Checks API accepts in a single request. */
+const CHECK_RUN_ANNOTATIONS_PER_REQUEST = 50;
+
+/** Creates a completed check run on the head commit for each of the given check runs. */
+export async function publishCheckRuns(accessToken: string, checkRuns: CheckRun[]): Promise<void> {
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  if (!process.env["GITHUB_REPOSITORY"]) {
+    core.debug("No GITHUB_REPOSITORY set, skipping check runs");
+    return;
+  }
+
+  const octokit = github.getOctokit(accessToken);
+  const { repo } = github.context;
+
+  // A check run that can't be created doesn't keep the others from being published
+  for (const { name, conclusion, title, summary, text, annotations } of checkRuns) {
+    try {
+      const output = { title, summary, ...(text && { text }) };
+      const { data: checkRun } = await withRateLimitRetries(`creating check run ${name}`, () =>
+        octokit.rest.checks.create({
+          ...repo,
+          name,
+          head_sha: headSha(),
+          status: "completed",
+          conclusion,
+          output: { ...output, annotations: annotations.slice(0, CHECK_RUN_ANNOTATIONS_PER_REQUEST) },
+        }),
+      );
+
+      // Further annotations are appended by updating the check run
+      for (
+        let start = CHECK_RUN_ANNOTATIONS_PER_REQUEST;
+        start < annotations.length;
+        start += CHECK_RUN_ANNOTATIONS_PER_REQUEST
+      ) {
+        const batch = annotations.slice(start, start + CHECK_RUN_ANNOTATIONS_PER_REQUEST);
+        await withRateLimitRetries(`annotating check run ${name}`, () =>
+          octokit.rest.checks.update({ ...repo, check_run_id: checkRun.id, output: { ...output, annotations: batch } }),
+        );
+      }
+    } catch (error: unknown) {
+      core.warning(`Failed to create check run ${name}: ${String(error)}`);
+    }
+  }
+}
+
+/** Sets a commit status covering every shard, failing when a task failed or a shard is missing. */
+export async function publishCommitStatus(
+  accessToken: string,
+  { shards, missingShards, failures }: AggregateResult,
+): Promise<void> {
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  if (!process.env["GITHUB_REPOSITORY"]) {
+    core.debug("No GITHUB_REPOSITORY set, skipping commit status");
+    return;
+  }
+
+  const total = shards.length + missingShards.length;
+  const descriptions = [
+    failures.length > 0
+      ? `${failures.length} task${failures.length === 1 ? "" : "s"} failed in ${new Set(failures.map(({ shard }) => shard)).size} of ${total} shards`
+      : `All tasks passed in ${shards.length} of ${total} shards`,
+    ...(missingShards.length > 0 ? [`${missingShards.length} missing`] : []),
+  ];
+  const jobGroup = core.getInput("job-group");
+
+  try {
+    await github.getOctokit(accessToken).rest.repos.createCommitStatus({
+      ...github.context.repo,
+      sha: headSha(),
+      state: failures.length > 0 || missingShards.length > 0 ? "failure" : "success",
+      context: jobGroup ? `moon ci (${jobGroup})` : "moon ci",
+      description: descriptions.join(", "),
+    });
+  } catch (error: unknown) {
+    core.warning(`Failed to set commit status: ${String(error)}`);
+  }
+}
+
+/** Statuses of tasks that ran and passed, or were restored from the cache of a passing run. */
+const PASSED_STATUSES = new Set<ActionStatus>(["passed", "cached", "cached-from-remote"]);
+
+/**
+ * Adds the label of every project with failures to the pull request, and removes the labels of the projects whose
+ * tasks all passed in this run. Projects that didn't run, e.g. in other shards, or whose tasks were skipped or blocked
+ * keep their labels.
+ */
+export async function syncFailureLabels(
+  accessToken: string,
+  labelTemplate: string,
+  report: RunReport,
+  failures: FailedTaskInfo[],
+): Promise<void> {
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  if (!process.env["GITHUB_REPOSITORY"]) {
+    core.debug("No GITHUB_REPOSITORY set, skipping failure labels");
+    return;
+  }
+
+  const labelOf = (target: string) => labelTemplate.replaceAll("{project}", parseTarget(target).project);
+  const failing = new Set(failures.map(({ target }) => labelOf(target)));
+  const passed = new Map<string, boolean>();
+  for (const action of report.actions.filter(
+    (action: Action) => action.node.action === "run-task",
+  ) as RunTaskAction[]) {
+    const label = labelOf(action.node.params.target);
+    passed.set(label, (passed.get(label) ?? true) && PASSED_STATUSES.has(action.status));
+  }
+  const passing = new Set([...passed].filter(([label, ok]) => ok && !failing.has(label)).map(([label]) => label));
+
+  const octokit = github.getOctokit(accessToken);
+  const { repo } = github.context;
+
+  try {
+    const prNumber = await gitHubPlatform(octokit).resolveChangeRequest();
+    if (!prNumber) return;
+
+    const labels = await withRateLimitRetries("listing labels", () =>
+      octokit.paginate(octokit.rest.issues.listLabelsOnIssue, { ...repo, issue_number: prNumber, per_page: 100 }),
+    );
+    const current = new Set(labels.map(({ name }) => name));
+
+    const added = [...failing].filter((label) => !current.has(label));
+    if (added.length > 0) {
+      core.debug(`Adding labels ${added.join(", ")}`);
+      await withRateLimitRetries("adding labels", () =>
+        octokit.rest.issues.addLabels({ ...repo, issue_number: prNumber, labels: added }),
+      );
+    }
+    for (const label of [...passing].filter((label) => current.has(label))) {
+      core.debug(`Removing label ${label}`);
+      await withRateLimitRetries(`removing label ${label}`, () =>
+        octokit.rest.issues.removeLabel({ ...repo, issue_number: prNumber, name: label }),
+      );
+    }
+  } catch (error: unknown) {
+    core.warning(`Failed to update failure labels: ${String(error)}`);
+  }
+}
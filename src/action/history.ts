@@ -0,0 +1,131 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import * as cache from "@actions/cache";
+import * as core from "@actions/core";
+import * as github from "@actions/github";
+
+import type { RunReport } from "@moonrepo/types";
+
+import {
+  commentTag,
+  type DurationHistory,
+  type FailedTaskInfo,
+  type FailureHistoryEntry,
+  fileExists,
+  formatFailureHistory,
+  parseFailureHistory,
+  recordRun,
+} from "../index.js";
+import { headSha, historyBranches } from "./context.js";
+
+/** Cache key prefix of a history file, e.g. `durations`, separate for every job group. */
+function historyCacheKeyPrefix(name: string): string {
+  return `${commentTag(core.getInput("job-group"))}-${name}-`;
+}
+
+/** Path of a history file from the input of that name, `null` when the history is disabled. */
+export function getHistoryPath(input: string, useCache: boolean, fileName: string): string | null {
+  const historyPath = core.getInput(input);
+  if (historyPath) {
+    return path.resolve(historyPath);
+  }
+
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  return useCache ? path.join(process.env["RUNNER_TEMP"] || os.tmpdir(), fileName) : null;
+}
+
+/** Restores the newest history file saved by a previous run, when the Actions cache is available. */
+async function restoreHistory(historyPath: string, name: string, description: string): Promise<void> {
+  if (!cache.isFeatureAvailable()) {
+    return;
+  }
+
+  const prefix = historyCacheKeyPrefix(name);
+  try {
+    const key = await cache.restoreCache([historyPath], `${prefix}${github.context.runId}`, [prefix]);
+    core.debug(key ? `Restored ${description} from cache key ${key}` : `No ${description} found in cache`);
+  } catch (error: unknown) {
+    core.warning(`Failed to restore ${description} from cache: ${String(error)}`);
+  }
+}
+
+async function saveHistory(historyPath: string, name: string, description: string): Promise<void> {
+  if (!cache.isFeatureAvailable()) {
+    return;
+  }
+
+  // Cache entries are immutable, so every run saves a new one and the newest is restored by prefix
+  const key = `${historyCacheKeyPrefix(name)}${github.context.runId}-${github.context.runAttempt}`;
+  try {
+    await cache.saveCache([historyPath], key);
+    core.debug(`Saved ${description} to cache key ${key}`);
+  } catch (error: unknown) {
+    core.warning(`Failed to save ${description} to cache: ${String(error)}`);
+  }
+}
+
+export async function loadDurationHistory(historyPath: string, useCache: boolean): Promise<DurationHistory> {
+  if (useCache) {
+    await restoreHistory(historyPath, "durations", "duration history");
+  }
+
+  if (!(await fileExists(historyPath))) {
+    return { version: 1, targets: {} };
+  }
+
+  try {
+    return JSON.parse(await readFile(historyPath, { encoding: "utf8" })) as DurationHistory;
+  } catch (error: unknown) {
+    core.warning(`Ignoring unreadable duration history ${historyPath}: ${String(error)}`);
+    return { version: 1, targets: {} };
+  }
+}
+
+export async function saveDurationHistory(
+  history: DurationHistory,
+  historyPath: string,
+  useCache: boolean,
+): Promise<void> {
+  await mkdir(path.dirname(historyPath), { recursive: true });
+  await writeFile(historyPath, JSON.stringify(history));
+
+  if (useCache) {
+    await saveHistory(historyPath, "durations", "duration history");
+  }
+}
+
+/** Number of targets listed in the top failing targets of the step summary. */
+export const TOP_FAILING_TARGETS = 5;
+
+/**
+ * Records the run in the failure history and saves it, returning the updated history, or `null` when the history is
+ * disabled.
+ */
+export async function updateFailureHistory(
+  report: RunReport,
+  failures: FailedTaskInfo[],
+): Promise<FailureHistoryEntry[] | null> {
+  const useCache = core.getInput("failure-history-cache") === "true";
+  const historyPath = getHistoryPath("failure-history", useCache, "moon-ci-booster-failures.ndjson");
+  if (!historyPath) {
+    return null;
+  }
+
+  if (useCache) {
+    await restoreHistory(historyPath, "failures", "failure history");
+  }
+  const previous = (await fileExists(historyPath))
+    ? parseFailureHistory(await readFile(historyPath, { encoding: "utf8" }))
+    : [];
+
+  const history = recordRun(previous, report, failures, { commit: headSha(), branch: historyBranches().branch });
+  await mkdir(path.dirname(historyPath), { recursive: true });
+  await writeFile(historyPath, formatFailureHistory(history));
+
+  if (useCache) {
+    await saveHistory(historyPath, "failures", "failure history");
+  }
+  return history;
+}
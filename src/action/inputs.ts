@@ -0,0 +1,137 @@
+import path from "node:path";
+
+import * as core from "@actions/core";
+
+import {
+  type CheckRunGranularity,
+  COMMENT_MODES,
+  type CommentMode,
+  DEFAULT_ERROR_PATTERNS,
+  fileExists,
+  type LogExcerptOptions,
+  readTemplate,
+  type StaleNoteStrategy,
+  type Template,
+  type TemplateVariables,
+  type WebhookFormat,
+} from "../index.js";
+
+export function getChoiceInput<T extends string>(name: string, choices: readonly T[], defaultValue: T): T {
+  const value = core.getInput(name) || defaultValue;
+
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`Invalid \`${name}\` input "${value}", expected one of: ${choices.join(", ")}.`);
+  }
+
+  return value as T;
+}
+
+export function getNumberInput(name: string, defaultValue: number): number {
+  const input = core.getInput(name);
+  if (input === "") {
+    return defaultValue;
+  }
+
+  const value = Number(input);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid \`${name}\` input "${input}", expected a non-negative number.`);
+  }
+
+  return value;
+}
+
+export function getPatternsInput(name: string): RegExp[] {
+  return core.getMultilineInput(name).map((pattern) => {
+    try {
+      return new RegExp(pattern);
+    } catch (error: unknown) {
+      throw new Error(`Invalid \`${name}\` input "${pattern}": ${String(error)}`);
+    }
+  });
+}
+
+export function getLogExcerptOptions(): LogExcerptOptions {
+  return {
+    patterns: [...getPatternsInput("error-patterns"), ...DEFAULT_ERROR_PATTERNS],
+    contextLines: getNumberInput("log-context-lines", 5),
+  };
+}
+
+/** Reads the template at the path given by the input, relative to the repository root. */
+export async function getTemplateInput(
+  name: string,
+  repositoryRoot: string,
+  variables: TemplateVariables,
+): Promise<Template | null> {
+  const input = core.getInput(name);
+  if (!input) {
+    return null;
+  }
+
+  const templatePath = path.resolve(repositoryRoot, input);
+  if (!(await fileExists(templatePath))) {
+    throw new Error(`Invalid \`${name}\` input "${input}", ${templatePath} does not exist.`);
+  }
+
+  return readTemplate(templatePath, variables);
+}
+
+export function getCommentMode(): CommentMode {
+  return getChoiceInput("comment-mode", COMMENT_MODES, "per-task");
+}
+
+export const STALE_COMMENT_STRATEGIES: readonly StaleNoteStrategy[] = ["delete", "minimize", "edit-resolved"];
+
+export type PlatformChoice = "auto" | "github" | "gitlab" | "bitbucket";
+
+export const PLATFORMS: readonly PlatformChoice[] = ["auto", "github", "gitlab", "bitbucket"];
+
+type Mode = "report" | "aggregate";
+
+export const MODES: readonly Mode[] = ["report", "aggregate"];
+
+export type SummaryDetail = "failures" | "full";
+
+export const SUMMARY_DETAILS: readonly SummaryDetail[] = ["failures", "full"];
+
+type RegressionNotify = "none" | "warning" | "comment";
+
+export const REGRESSION_NOTIFY_MODES: readonly RegressionNotify[] = ["none", "warning", "comment"];
+
+export type CheckRunsMode = "none" | CheckRunGranularity;
+
+export const CHECK_RUNS_MODES: readonly CheckRunsMode[] = ["none", "project", "target"];
+
+const WEBHOOK_FORMATS: readonly WebhookFormat[] = ["slack", "msteams", "json"];
+
+type NotifyBranches = "all" | "default";
+
+const NOTIFY_BRANCHES: readonly NotifyBranches[] = ["all", "default"];
+
+type NotifyFailures = "all" | "new";
+
+const NOTIFY_FAILURES: readonly NotifyFailures[] = ["all", "new"];
+
+export interface WebhookOptions {
+  url: string;
+  format: WebhookFormat;
+  /** Whether runs of any branch notify, or only runs of the default branch. */
+  branches: NotifyBranches;
+  /** Whether every failure is notified, or only the ones that didn't fail in the baseline report. */
+  failures: NotifyFailures;
+}
+
+/** Options of the webhook notification, `null` when no webhook is set. */
+export function getWebhookOptions(): WebhookOptions | null {
+  const format = getChoiceInput("notify-webhook-format", WEBHOOK_FORMATS, "json");
+  const branches = getChoiceInput("notify-branches", NOTIFY_BRANCHES, "all");
+  const failures = getChoiceInput("notify-failures", NOTIFY_FAILURES, "all");
+  const url = core.getInput("notify-webhook");
+  if (!url) {
+    return null;
+  }
+
+  // Webhook URLs embed their credentials
+  core.setSecret(url);
+  return { url, format, branches, failures };
+}
@@ -0,0 +1,431 @@
+import * as core from "@actions/core";
+
+import {
+  aggregateShards,
+  analyzeRootCauses,
+  buildCheckRuns,
+  COMMENT_TEMPLATE_VARIABLES,
+  type CommentMode,
+  collectRunResults,
+  commentToken,
+  computeCacheStats,
+  DEFAULT_SECRET_PATTERNS,
+  type DurationRegression,
+  detectRegressions,
+  type FailedTaskInfo,
+  failingTargetsOf,
+  failureComments,
+  findShardReports,
+  fingerprintsOf,
+  fixedTargetsOf,
+  formatCacheStats,
+  formatDuration,
+  formatJUnitReport,
+  formatRegressions,
+  formatRegressionsComment,
+  formatResultSections,
+  formatRunOverview,
+  formatSarifReport,
+  formatShards,
+  formatTopFailingTargets,
+  loadActionGraph,
+  loadLastRunDurations,
+  loadRunReport,
+  type MarkdownOptions,
+  mergeProjectOwners,
+  millisToDuration,
+  type PlannedNote,
+  REGRESSIONS_COMMENT_ID,
+  type RegressionThresholds,
+  type ReviewPlatform,
+  ranTaskDurations,
+  recordDurations,
+  resolveProjectOwners,
+  type ShardReport,
+  type StaleNoteStrategy,
+  SUMMARY_TEMPLATE_VARIABLES,
+  syncNotes,
+  topFailingTargets,
+  withFailureRates,
+  writeExport,
+} from "../index.js";
+import { downloadShardReports, loadBaselineReport, uploadBaselineReport, uploadShardReport } from "./artifacts.js";
+import { headSha, historyBranches, runUrl } from "./context.js";
+import { getReviewPlatform, publishCheckRuns, publishCommitStatus, syncFailureLabels } from "./github.js";
+import {
+  getHistoryPath,
+  loadDurationHistory,
+  saveDurationHistory,
+  TOP_FAILING_TARGETS,
+  updateFailureHistory,
+} from "./history.js";
+import {
+  CHECK_RUNS_MODES,
+  type CheckRunsMode,
+  getChoiceInput,
+  getCommentMode,
+  getLogExcerptOptions,
+  getNumberInput,
+  getPatternsInput,
+  getTemplateInput,
+  getWebhookOptions,
+  MODES,
+  PLATFORMS,
+  REGRESSION_NOTIFY_MODES,
+  STALE_COMMENT_STRATEGIES,
+  SUMMARY_DETAILS,
+  type SummaryDetail,
+  type WebhookOptions,
+} from "./inputs.js";
+import { notifyWebhook } from "./notify.js";
+import { emitAllowedFailureWarnings, emitAnnotations, emitConsoleOutput, setCategoryOutputs } from "./outputs.js";
+
+/** Comment ID used in place of a target for the comment listing shards, when some of them are missing. */
+const SHARDS_COMMENT_ID = "shards";
+
+/** Runs the action, in `report` or `aggregate` mode depending on the `mode` input. */
+export async function main(): Promise<void> {
+  const accessToken = core.getInput("access-token");
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  const workspaceRoot = core.getInput("workspace-root") || process.env["GITHUB_WORKSPACE"] || process.cwd();
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  const repositoryRoot = process.env["GITHUB_WORKSPACE"] || workspaceRoot;
+  core.debug(`Using workspace root ${workspaceRoot}`);
+
+  if (!accessToken) {
+    throw new Error("An `access-token` input is required.");
+  }
+
+  const mode = getChoiceInput("mode", MODES, "report");
+  const commentMode = getCommentMode();
+  const staleCommentStrategy = getChoiceInput("stale-comment-strategy", STALE_COMMENT_STRATEGIES, "delete");
+  const platform = getReviewPlatform(getChoiceInput("platform", PLATFORMS, "auto"), accessToken);
+  const checkRuns = getChoiceInput("check-runs", CHECK_RUNS_MODES, "none");
+  const mentionOwners = core.getInput("mention-owners") === "true";
+  const failureLabel = core.getInput("failure-label");
+  const flakyComment = core.getInput("flaky-comment") === "true";
+  // Validate patterns and templates up front rather than failing halfway through posting comments
+  const secretPatterns = [...DEFAULT_SECRET_PATTERNS, ...getPatternsInput("redact-patterns")];
+  const commentTemplate = await getTemplateInput("comment-template", repositoryRoot, COMMENT_TEMPLATE_VARIABLES);
+  const summaryTemplate = await getTemplateInput("summary-template", repositoryRoot, SUMMARY_TEMPLATE_VARIABLES);
+  const markdownOptions: MarkdownOptions = {
+    jobGroup: core.getInput("job-group"),
+    excerpt: getLogExcerptOptions(),
+    templates: {
+      ...(commentTemplate && { comment: commentTemplate }),
+      ...(summaryTemplate && { summary: summaryTemplate }),
+    },
+    run: { url: runUrl(), sha: headSha() || null },
+  };
+  const webhook = getWebhookOptions();
+  const maxAnnotations = getNumberInput("max-annotations", 10);
+  const summaryDetail = getChoiceInput("summary-detail", SUMMARY_DETAILS, "failures");
+  const slowestTasksCount = getNumberInput("slowest-tasks", 5);
+  const regressionNotify = getChoiceInput("regression-notify", REGRESSION_NOTIFY_MODES, "none");
+  const regressionThresholds: RegressionThresholds = {
+    percent: getNumberInput("regression-threshold-percent", 50),
+    millis: getNumberInput("regression-threshold-ms", 5000),
+  };
+
+  if (mode === "aggregate") {
+    await aggregate(accessToken, commentMode, markdownOptions, {
+      summaryDetail,
+      slowestTasksCount,
+      staleCommentStrategy,
+      platform,
+      checkRuns,
+      failureLabel,
+      flakyComment,
+      webhook,
+      secretPatterns,
+      projectOwners: (cacheRoot) =>
+        mentionOwners ? resolveProjectOwners({ cacheRoot, workspaceRoot, repositoryRoot }) : Promise.resolve(null),
+    });
+    return;
+  }
+
+  const runReport = await loadRunReport(workspaceRoot);
+  if (!runReport) {
+    core.warning("Run report does not exist, has `moon ci` or `moon run` ran?");
+    core.setOutput("has-failures", "false");
+    core.setOutput("failure-fingerprints", "[]");
+    setCategoryOutputs([], [], []);
+    core.setOutput("comment-created", "false");
+    core.setOutput("notification-sent", "false");
+    return;
+  }
+  const { path: reportPath, report } = runReport;
+
+  const reportArtifact = core.getInput("report-artifact");
+  if (reportArtifact) {
+    await uploadShardReport(reportArtifact, workspaceRoot, reportPath, report);
+  }
+
+  const uploadBaseline = core.getInput("upload-baseline");
+  if (uploadBaseline) {
+    await uploadBaselineReport(uploadBaseline, reportPath);
+  }
+
+  const useDurationHistoryCache = core.getInput("duration-history-cache") === "true";
+  const durationHistoryPath = getHistoryPath(
+    "duration-history",
+    useDurationHistoryCache,
+    "moon-ci-booster-durations.json",
+  );
+  let regressions: DurationRegression[] = [];
+
+  if (durationHistoryPath) {
+    const history = await loadDurationHistory(durationHistoryPath, useDurationHistoryCache);
+    const durations = ranTaskDurations(report);
+
+    regressions = detectRegressions(history, durations, regressionThresholds);
+    core.setOutput("duration-regressions", JSON.stringify(regressions));
+
+    await saveDurationHistory(recordDurations(history, durations), durationHistoryPath, useDurationHistoryCache);
+  }
+
+  if (regressionNotify === "warning") {
+    for (const { target, duration, median } of regressions) {
+      core.warning(
+        `${target} took ${formatDuration(millisToDuration(duration))}, up from a median of ${formatDuration(millisToDuration(median))}.`,
+        { title: "Performance regression" },
+      );
+    }
+  }
+
+  const baselineReport = await loadBaselineReport(core.getInput("baseline-report"), accessToken);
+  const baselineFailures = baselineReport ? failingTargetsOf(baselineReport) : null;
+
+  const cacheStats = computeCacheStats(report, await loadLastRunDurations(core.getInput("cache-stats-baseline")));
+  core.setOutput("cache-stats", JSON.stringify(cacheStats));
+
+  const collected = await collectRunResults(report, {
+    workspaceRoot,
+    repositoryRoot,
+    baselineFailures,
+    rootCauses: analyzeRootCauses(report, await loadActionGraph(core.getInput("action-graph"))),
+    projectOwners: mentionOwners
+      ? await resolveProjectOwners({ cacheRoot: workspaceRoot, workspaceRoot, repositoryRoot })
+      : null,
+    secretPatterns,
+  });
+  const failureHistory = await updateFailureHistory(report, collected.failures);
+  const results = failureHistory
+    ? { ...collected, failures: withFailureRates(collected.failures, failureHistory, historyBranches()) }
+    : collected;
+  const { failures, allowedFailures, abortedTasks } = results;
+
+  if (failures.length === 0) {
+    core.info("No failing tasks found.");
+  }
+  core.setOutput("has-failures", failures.length > 0 ? "true" : "false");
+  core.setOutput(
+    "has-new-failures",
+    failures.some((failure) => failure.baseline !== "pre-existing") ? "true" : "false",
+  );
+  core.setOutput("failure-fingerprints", JSON.stringify(fingerprintsOf(failures)));
+  setCategoryOutputs(failures, allowedFailures, abortedTasks);
+
+  emitConsoleOutput(failures);
+  emitAllowedFailureWarnings(allowedFailures);
+  emitAnnotations(failures, maxAnnotations);
+
+  const junitReport = core.getInput("junit-report");
+  if (junitReport) {
+    core.setOutput(
+      "junit-report-path",
+      await writeExport(junitReport, await formatJUnitReport(report, workspaceRoot, secretPatterns)),
+    );
+  }
+  const sarifReport = core.getInput("sarif-report");
+  if (sarifReport) {
+    const diagnostics = failures.flatMap((failure) => failure.diagnostics);
+    core.setOutput("sarif-report-path", await writeExport(sarifReport, formatSarifReport(diagnostics)));
+  }
+
+  const summarySections: string[] = [];
+  if (summaryDetail === "full") {
+    summarySections.push(formatRunOverview(report, slowestTasksCount));
+    summarySections.push(formatCacheStats(cacheStats));
+  }
+  const fixedTargets = baselineFailures ? fixedTargetsOf(report, baselineFailures) : [];
+  summarySections.push(...formatResultSections(results, markdownOptions, fixedTargets));
+  if (regressions.length > 0) {
+    summarySections.push(formatRegressions(regressions));
+  }
+  const failingTargets = failureHistory ? topFailingTargets(failureHistory, TOP_FAILING_TARGETS) : [];
+  if (failingTargets.length > 0) {
+    summarySections.push(formatTopFailingTargets(failingTargets));
+  }
+
+  if (summarySections.length > 0) {
+    const summaryMarkdown = summarySections.join("\n");
+    core.setOutput("report", summaryMarkdown);
+    await core.summary.addRaw(summaryMarkdown).write();
+  }
+
+  const comments = failureComments(commentMode, results, markdownOptions, flakyComment);
+  if (regressionNotify === "comment" && regressions.length > 0) {
+    comments.push({ id: REGRESSIONS_COMMENT_ID, markdown: formatRegressionsComment(regressions, markdownOptions) });
+  }
+
+  if (checkRuns !== "none") {
+    await publishCheckRuns(accessToken, buildCheckRuns(report, failures, checkRuns, markdownOptions));
+  }
+  if (failureLabel) {
+    await syncFailureLabels(accessToken, failureLabel, report, failures);
+  }
+  await publishComments(platform, commentMode, comments, staleCommentStrategy, failures);
+  await notifyWebhook(webhook, failures, markdownOptions);
+}
+
+interface AggregateOptions {
+  summaryDetail: SummaryDetail;
+  slowestTasksCount: number;
+  staleCommentStrategy: StaleNoteStrategy;
+  platform: ReviewPlatform | null;
+  checkRuns: CheckRunsMode;
+  failureLabel: string;
+  flakyComment: boolean;
+  webhook: WebhookOptions | null;
+  secretPatterns: RegExp[];
+  /** Resolves the owners of the projects listed in the cache of a shard, `null` unless owners are mentioned. */
+  projectOwners: (cacheRoot: string) => Promise<Map<string, string[]> | null>;
+}
+
+/** Combines the reports of every shard of a sharded run into one summary, comment and commit status. */
+async function aggregate(
+  accessToken: string,
+  commentMode: CommentMode,
+  markdownOptions: MarkdownOptions,
+  {
+    summaryDetail,
+    slowestTasksCount,
+    staleCommentStrategy,
+    platform,
+    checkRuns,
+    failureLabel,
+    flakyComment,
+    webhook,
+    secretPatterns,
+    projectOwners,
+  }: AggregateOptions,
+): Promise<void> {
+  const directory = core.getInput("aggregate-reports");
+  const reportArtifact = core.getInput("report-artifact");
+  const prefix = reportArtifact ? `${reportArtifact}-` : "";
+
+  let shards: ShardReport[];
+  if (directory) {
+    shards = await findShardReports(directory, prefix);
+  } else if (reportArtifact) {
+    shards = await downloadShardReports(prefix);
+  } else {
+    throw new Error("The `aggregate` mode requires an `aggregate-reports` directory or a `report-artifact` name.");
+  }
+
+  // Shards may only cache the projects they ran tasks of, so the owners found in each of them are merged
+  const owners = mergeProjectOwners(await Promise.all(shards.map(({ workspaceRoot }) => projectOwners(workspaceRoot))));
+  const baselineReport = await loadBaselineReport(core.getInput("baseline-report"), accessToken);
+  const baselineFailures = baselineReport ? failingTargetsOf(baselineReport) : null;
+  const aggregated = await aggregateShards(shards, core.getMultilineInput("expected-shards"), {
+    projectOwners: owners,
+    baselineFailures,
+    secretPatterns,
+  });
+  const failureHistory = await updateFailureHistory(aggregated.report, aggregated.failures);
+  const result = failureHistory
+    ? { ...aggregated, failures: withFailureRates(aggregated.failures, failureHistory, historyBranches()) }
+    : aggregated;
+  const { failures, allowedFailures, abortedTasks, missingShards } = result;
+
+  for (const name of missingShards) {
+    core.warning(`Shard ${name} did not upload a run report, its results are missing.`);
+  }
+  if (failures.length === 0) {
+    core.info("No failing tasks found.");
+  }
+  core.setOutput("has-failures", failures.length > 0 ? "true" : "false");
+  core.setOutput(
+    "has-new-failures",
+    failures.some((failure) => failure.baseline !== "pre-existing") ? "true" : "false",
+  );
+  core.setOutput("failure-fingerprints", JSON.stringify(fingerprintsOf(failures)));
+  core.setOutput("missing-shards", JSON.stringify(missingShards));
+  setCategoryOutputs(failures, allowedFailures, abortedTasks);
+  emitAllowedFailureWarnings(allowedFailures);
+
+  const summarySections: string[] = [formatShards(result)];
+  if (summaryDetail === "full") {
+    summarySections.push(formatRunOverview(result.report, slowestTasksCount));
+    summarySections.push(formatCacheStats(computeCacheStats(result.report, new Map())));
+  }
+  const fixedTargets = baselineFailures ? fixedTargetsOf(result.report, baselineFailures) : [];
+  summarySections.push(...formatResultSections(result, markdownOptions, fixedTargets));
+  const failingTargets = failureHistory ? topFailingTargets(failureHistory, TOP_FAILING_TARGETS) : [];
+  if (failingTargets.length > 0) {
+    summarySections.push(formatTopFailingTargets(failingTargets));
+  }
+
+  const summaryMarkdown = summarySections.join("\n");
+  core.setOutput("report", summaryMarkdown);
+  await core.summary.addRaw(summaryMarkdown).write();
+
+  const comments = failureComments(commentMode, result, markdownOptions, flakyComment);
+  if (missingShards.length > 0) {
+    comments.push({
+      id: SHARDS_COMMENT_ID,
+      markdown: `${commentToken(markdownOptions.jobGroup, SHARDS_COMMENT_ID)}\n\n${formatShards(result)}`,
+    });
+  }
+
+  await publishCommitStatus(accessToken, result);
+  if (checkRuns !== "none") {
+    await publishCheckRuns(accessToken, buildCheckRuns(result.report, failures, checkRuns, markdownOptions));
+  }
+  if (failureLabel) {
+    await syncFailureLabels(accessToken, failureLabel, result.report, failures);
+  }
+  await publishComments(platform, commentMode, comments, staleCommentStrategy, failures);
+  await notifyWebhook(webhook, failures, markdownOptions);
+}
+
+async function publishComments(
+  platform: ReviewPlatform | null,
+  commentMode: CommentMode,
+  comments: PlannedNote[],
+  staleCommentStrategy: StaleNoteStrategy,
+  failures: FailedTaskInfo[],
+): Promise<void> {
+  if (commentMode === "none") {
+    core.debug("Comment mode is none, skipping PR comment");
+    core.setOutput("comment-created", "false");
+  } else if (platform) {
+    try {
+      const changeRequest = await platform.resolveChangeRequest();
+      if (!changeRequest) {
+        core.warning("No pull request or issue found, will not add a comment.");
+        core.setOutput("comment-created", "false");
+        return;
+      }
+
+      // Also cleans up comments of targets that passed since the previous run. The per-task comments of failing
+      // targets are only left alone in per-task mode, other modes show the failures elsewhere
+      await syncNotes(platform, changeRequest, comments, {
+        jobGroup: core.getInput("job-group"),
+        staleNoteStrategy: staleCommentStrategy,
+        sha: headSha(),
+        failingTargets: commentMode === "per-task" ? failures.map(({ target }) => target) : [],
+      });
+
+      core.setOutput("comment-created", comments.length > 0 ? "true" : "false");
+    } catch (error: unknown) {
+      core.warning(String(error));
+      core.notice(`\nFailed to create comment on ${platform.name}. Perhaps this is ran in a fork?\n`);
+      core.setOutput("comment-created", "false");
+    }
+  } else {
+    core.debug("No GITHUB_REPOSITORY set, skipping PR comment");
+    core.setOutput("comment-created", "false");
+  }
+}
@@ -0,0 +1,52 @@
+import * as core from "@actions/core";
+
+import { type FailedTaskInfo, formatWebhookPayload, type MarkdownOptions, sendWebhook } from "../index.js";
+import { commitAuthor, headSha, historyBranches, isDefaultBranchRun, runUrl } from "./context.js";
+import type { WebhookOptions } from "./inputs.js";
+
+/** Posts a digest of the failures to the webhook, unless the rules of the webhook leave the run out. */
+export async function notifyWebhook(
+  options: WebhookOptions | null,
+  failures: FailedTaskInfo[],
+  markdownOptions: MarkdownOptions,
+): Promise<void> {
+  if (!options) {
+    core.setOutput("notification-sent", "false");
+    return;
+  }
+
+  const branches = historyBranches();
+  const notified =
+    options.failures === "new" ? failures.filter((failure) => failure.baseline !== "pre-existing") : failures;
+  if (notified.length === 0) {
+    core.debug("No failures to notify about, skipping the webhook notification");
+    core.setOutput("notification-sent", "false");
+    return;
+  }
+  if (options.branches === "default" && !isDefaultBranchRun(branches)) {
+    core.debug(`Not notifying about failures on ${branches.branch}, which isn't the default branch`);
+    core.setOutput("notification-sent", "false");
+    return;
+  }
+
+  const payload = formatWebhookPayload(
+    options.format,
+    {
+      failures: notified,
+      branch: branches.branch,
+      sha: headSha(),
+      author: commitAuthor(),
+      runUrl: runUrl(),
+      jobGroup: markdownOptions.jobGroup,
+    },
+    markdownOptions.excerpt,
+  );
+
+  try {
+    await sendWebhook(options.url, payload);
+    core.setOutput("notification-sent", "true");
+  } catch (error: unknown) {
+    core.warning(error instanceof Error ? error.message : String(error));
+    core.setOutput("notification-sent", "false");
+  }
+}
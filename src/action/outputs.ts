@@ -0,0 +1,74 @@
+import * as core from "@actions/core";
+
+import { type AbortedTaskInfo, durationToMillis, type FailedTaskInfo, formatRedactionCount } from "../index.js";
+
+export function emitConsoleOutput(failures: FailedTaskInfo[]): void {
+  for (const failure of failures) {
+    const stderrTrimmed = failure.stderr.trim();
+    const stdoutTrimmed = failure.stdout.trim();
+
+    if (stderrTrimmed !== "") {
+      core.startGroup(`stderr for failed target ${failure.target}`);
+      core.info(stderrTrimmed);
+      core.endGroup();
+    }
+
+    if (stdoutTrimmed !== "") {
+      core.startGroup(`stdout for failed target ${failure.target}`);
+      core.info(stdoutTrimmed);
+      core.endGroup();
+    }
+
+    if (failure.redactions > 0) {
+      core.info(`Redacted ${formatRedactionCount(failure.redactions)} from the output of ${failure.target}.`);
+    }
+  }
+}
+
+export function emitAnnotations(failures: FailedTaskInfo[], maxAnnotations: number): void {
+  const diagnostics = failures.flatMap((failure) => failure.diagnostics);
+
+  for (const diagnostic of diagnostics.slice(0, maxAnnotations)) {
+    const annotate = diagnostic.severity === "error" ? core.error : core.warning;
+    annotate(diagnostic.message, {
+      title: diagnostic.target,
+      file: diagnostic.file,
+      startLine: diagnostic.line,
+      ...(diagnostic.column !== null && { startColumn: diagnostic.column }),
+    });
+  }
+
+  if (diagnostics.length > maxAnnotations) {
+    core.info(`${diagnostics.length - maxAnnotations} more diagnostics were found but not annotated.`);
+  }
+}
+
+export function emitAllowedFailureWarnings(allowedFailures: FailedTaskInfo[]): void {
+  for (const { target } of allowedFailures) {
+    core.warning(`${target} failed, but is allowed to fail.`, { title: "Allowed failure" });
+  }
+}
+
+/** Sets an output for every category of results besides passing tasks, durations in milliseconds. */
+export function setCategoryOutputs(
+  failures: FailedTaskInfo[],
+  allowedFailures: FailedTaskInfo[],
+  abortedTasks: AbortedTaskInfo[],
+): void {
+  const hardFailures = failures.filter(({ category }) => category === "failure");
+  const timeouts = failures.filter(({ category }) => category === "timeout");
+
+  core.setOutput("failed-targets", JSON.stringify(hardFailures.map(({ target }) => target)));
+  core.setOutput("allowed-failures", JSON.stringify(allowedFailures.map(({ target, error }) => ({ target, error }))));
+  core.setOutput(
+    "timeouts",
+    JSON.stringify(
+      timeouts.map(({ target, timeout, duration }) => ({
+        target,
+        timeout: timeout === null ? null : timeout * 1000,
+        duration: Math.round(durationToMillis(duration)),
+      })),
+    ),
+  );
+  core.setOutput("aborted-targets", JSON.stringify(abortedTasks.map(({ target }) => target)));
+}
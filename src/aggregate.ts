@@ -0,0 +1,147 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+
+import type { Action, RunReport } from "@moonrepo/types";
+
+import { durationToMillis, formatDuration, millisToDuration } from "./format.js";
+import { log } from "./logger.js";
+import { DEFAULT_SECRET_PATTERNS } from "./redact.js";
+import { findReportPath, isFailedTask, readReport } from "./report.js";
+import { analyzeRootCauses } from "./root-cause.js";
+import { collectRunResults, type RunResults } from "./run.js";
+
+/** Run report of one job of a sharded run, with the workspace its logs were uploaded from. */
+export interface ShardReport {
+  name: string;
+  workspaceRoot: string;
+  report: RunReport;
+}
+
+export interface AggregateResult extends RunResults {
+  shards: ShardReport[];
+  /** Expected shards that didn't provide a report. */
+  missingShards: string[];
+  /** Reports of all shards merged into one, as if the tasks ran in a single job. */
+  report: RunReport;
+}
+
+/**
+ * Finds the reports in the subdirectories of `directory`, e.g. downloaded artifacts, each of which is a shard named
+ * after its directory without the `prefix`.
+ */
+export async function findShardReports(directory: string, prefix = ""): Promise<ShardReport[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const directories = entries.filter((entry) => entry.isDirectory()).sort((a, b) => a.name.localeCompare(b.name));
+  const shards: ShardReport[] = [];
+
+  for (const entry of directories) {
+    const workspaceRoot = path.join(directory, entry.name);
+    const reportPath =
+      (await findReportPath(path.join(workspaceRoot, ".moon/cache"))) ?? (await findReportPath(workspaceRoot));
+    if (!reportPath) {
+      log.warning(`No run report found in ${workspaceRoot}, skipping it.`);
+      continue;
+    }
+
+    const name = prefix && entry.name.startsWith(prefix) ? entry.name.slice(prefix.length) : entry.name;
+    shards.push({ name, workspaceRoot, report: await readReport(reportPath) });
+  }
+
+  return shards;
+}
+
+function mergeReports(shards: ShardReport[]): RunReport {
+  const [first] = shards;
+
+  return {
+    ...first?.report,
+    actions: shards.flatMap(({ report }) => report.actions),
+    context: {
+      ...first?.report.context,
+      primaryTargets: shards.flatMap(({ report }) => report.context?.primaryTargets ?? []),
+    },
+    // Shards run in parallel, so the run took as long as the slowest one
+    duration: millisToDuration(Math.max(0, ...shards.map(({ report }) => durationToMillis(report.duration)))),
+  } as RunReport;
+}
+
+export interface AggregateShardsOptions {
+  /** Owners by project, to mention them on failures of their projects. */
+  projectOwners?: Map<string, string[]> | null;
+  /** Targets that failed in the baseline report, `null` without a baseline. */
+  baselineFailures?: Set<string> | null;
+  /** Patterns of secrets masked besides the environment variable values of the tasks. */
+  secretPatterns?: RegExp[];
+}
+
+/**
+ * Collects the failures of every shard, each analyzed against its own report and logs, compared against the baseline
+ * and with the owners of their projects when given.
+ */
+export async function aggregateShards(
+  shards: ShardReport[],
+  expectedShards: string[],
+  {
+    projectOwners = null,
+    baselineFailures = null,
+    secretPatterns = DEFAULT_SECRET_PATTERNS,
+  }: AggregateShardsOptions = {},
+): Promise<AggregateResult> {
+  const result: AggregateResult = {
+    shards,
+    missingShards: expectedShards.filter((expected) => !shards.some(({ name }) => name === expected)),
+    report: mergeReports(shards),
+    failures: [],
+    allowedFailures: [],
+    abortedTasks: [],
+    flakyTasks: [],
+    rootCauses: { rootCauses: [], blocked: [], edges: [] },
+  };
+
+  for (const shard of shards) {
+    const rootCauses = analyzeRootCauses(shard.report, null);
+    result.rootCauses.rootCauses.push(...rootCauses.rootCauses);
+    result.rootCauses.blocked.push(...rootCauses.blocked);
+    result.rootCauses.edges.push(...rootCauses.edges);
+
+    const { failures, allowedFailures, abortedTasks, flakyTasks } = await collectRunResults(shard.report, {
+      workspaceRoot: shard.workspaceRoot,
+      rootCauses,
+      shard: shard.name,
+      projectOwners,
+      baselineFailures,
+      secretPatterns,
+    });
+    result.failures.push(...failures);
+    result.allowedFailures.push(...allowedFailures);
+    result.abortedTasks.push(...abortedTasks);
+    result.flakyTasks.push(...flakyTasks);
+  }
+
+  return result;
+}
+
+export function formatShards({ shards, missingShards }: AggregateResult): string {
+  const lines: string[] = [
+    "## :jigsaw: Shards",
+    "",
+    `**${shards.length} of ${shards.length + missingShards.length} shard${shards.length + missingShards.length === 1 ? "" : "s"} reported**`,
+    "",
+    "| Shard | Tasks | Failed | Duration |",
+    "| --- | --- | --- | --- |",
+  ];
+
+  for (const { name, report } of shards) {
+    const tasks = report.actions.filter((action: Action) => action.node.action === "run-task").length;
+    const failed = report.actions.filter(isFailedTask).length;
+    lines.push(
+      `| ${failed > 0 ? ":x:" : ":white_check_mark:"} \`${name}\` | ${tasks} | ${failed} | ${formatDuration(report.duration)} |`,
+    );
+  }
+  for (const name of missingShards) {
+    lines.push(`| :grey_question: \`${name}\` | - | - | no report |`);
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
@@ -0,0 +1,37 @@
+import type { Action, RunReport } from "@moonrepo/types";
+
+import { taskStatusOf } from "./overview.js";
+import { isFailedTask, type RunTaskAction } from "./report.js";
+
+export type BaselineStatus = "new" | "pre-existing";
+
+export const BASELINE_STATUS_LABELS: Record<BaselineStatus, string> = {
+  new: ":new: new",
+  "pre-existing": ":repeat: pre-existing",
+};
+
+export function failingTargetsOf(report: RunReport): Set<string> {
+  return new Set(report.actions.filter(isFailedTask).map((action: RunTaskAction) => action.node.params.target));
+}
+
+/** Targets that failed in the baseline, and ran successfully this time. */
+export function fixedTargetsOf(report: RunReport, baselineFailures: Set<string>): string[] {
+  return report.actions
+    .filter(
+      (action: Action): action is RunTaskAction =>
+        action.node.action === "run-task" && taskStatusOf(action) === "passed",
+    )
+    .map((action: RunTaskAction) => action.node.params.target)
+    .filter((target: string) => baselineFailures.has(target));
+}
+
+export function formatFixedTargets(fixedTargets: string[]): string {
+  return [
+    "## :white_check_mark: Fixed",
+    "",
+    `**${fixedTargets.length} task${fixedTargets.length === 1 ? "" : "s"} failing in the baseline passed**`,
+    "",
+    ...fixedTargets.map((target) => `- \`${target}\``),
+    "",
+  ].join("\n");
+}
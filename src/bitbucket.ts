@@ -0,0 +1,108 @@
+import { log } from "./logger.js";
+import { type ReviewNote, type ReviewPlatform, requestJson, withRateLimitRetries } from "./review-platform.js";
+
+const BITBUCKET_API_URL = "https://api.bitbucket.org/2.0";
+
+/** Variables Bitbucket Pipelines sets for the step, only the ones used to post pull request comments. */
+export interface BitbucketEnvironment {
+  /** `BITBUCKET_API_URL`, which isn't set by Bitbucket but overrides the API, e.g. for a proxy. */
+  apiUrl: string;
+  /** `BITBUCKET_WORKSPACE` */
+  workspace: string;
+  /** `BITBUCKET_REPO_SLUG` */
+  repoSlug: string;
+  /** `BITBUCKET_PR_ID`, only set in pull request pipelines. */
+  pullRequestId: string | null;
+  /** `BITBUCKET_COMMIT` */
+  commit: string;
+}
+
+/** Reads the Bitbucket Pipelines variables, `null` when not running in Bitbucket Pipelines. */
+export function bitbucketEnvironment(env: NodeJS.ProcessEnv = process.env): BitbucketEnvironment | null {
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  const workspace = env["BITBUCKET_WORKSPACE"];
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  const repoSlug = env["BITBUCKET_REPO_SLUG"];
+  if (!workspace || !repoSlug) {
+    return null;
+  }
+
+  return {
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    apiUrl: (env["BITBUCKET_API_URL"] || BITBUCKET_API_URL).replace(/\/+$/, ""),
+    workspace,
+    repoSlug,
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    pullRequestId: env["BITBUCKET_PR_ID"] || null,
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    commit: env["BITBUCKET_COMMIT"] ?? "",
+  };
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+interface BitbucketComment {
+  id: number;
+  content?: { raw?: string };
+  deleted?: boolean;
+}
+
+/**
+ * Posts comments on Bitbucket Cloud pull requests, with an access token, or an app password given as
+ * `username:password`.
+ */
+export function bitbucketPlatform(environment: BitbucketEnvironment, token: string): ReviewPlatform {
+  const repositoryUrl = `${environment.apiUrl}/repositories/${encodeURIComponent(environment.workspace)}/${encodeURIComponent(environment.repoSlug)}`;
+  const headers = {
+    Authorization: token.includes(":") ? `Basic ${Buffer.from(token).toString("base64")}` : `Bearer ${token}`,
+  };
+  const commentsUrl = (pullRequest: number) => `${repositoryUrl}/pullrequests/${pullRequest}/comments`;
+
+  return {
+    name: "Bitbucket",
+
+    async resolveChangeRequest() {
+      if (environment.pullRequestId) {
+        return Number(environment.pullRequestId);
+      }
+
+      log.debug("No pull request found from pipeline variables, trying to find pull requests associated with commit");
+      const { data } = await withRateLimitRetries("finding the pull request", () =>
+        requestJson<BitbucketPage<{ id: number }>>(`${repositoryUrl}/commit/${environment.commit}/pullrequests`, {
+          headers,
+        }),
+      );
+      return data.values[0]?.id ?? null;
+    },
+
+    async listNotes(pullRequest) {
+      const notes: ReviewNote[] = [];
+      for (let url: string | undefined = `${commentsUrl(pullRequest)}?pagelen=100`; url; ) {
+        const { data }: { data: BitbucketPage<BitbucketComment> } = await requestJson(url, { headers });
+        notes.push(
+          ...data.values
+            .filter((comment) => !comment.deleted)
+            .map((comment) => ({ id: comment.id, body: comment.content?.raw ?? "" })),
+        );
+        url = data.next;
+      }
+      return notes;
+    },
+
+    createNote: (pullRequest, body) =>
+      requestJson(commentsUrl(pullRequest), { method: "POST", headers, body: { content: { raw: body } } }),
+
+    updateNote: (pullRequest, note, body) =>
+      requestJson(`${commentsUrl(pullRequest)}/${note.id}`, {
+        method: "PUT",
+        headers,
+        body: { content: { raw: body } },
+      }),
+
+    deleteNote: (pullRequest, note) =>
+      requestJson(`${commentsUrl(pullRequest)}/${note.id}`, { method: "DELETE", headers }),
+  };
+}
@@ -0,0 +1,169 @@
+import { readFile } from "node:fs/promises";
+
+import type { Action, ActionStatus, Operation, RunReport } from "@moonrepo/types";
+
+import { durationToMillis, formatDuration, formatPercent, millisToDuration } from "./format.js";
+import { log } from "./logger.js";
+import { type CacheHit, cacheHitOf } from "./overview.js";
+import { fileExists, parseTarget, type RunTaskAction } from "./report.js";
+
+export interface TargetCacheStats {
+  target: string;
+  hit: CacheHit | null;
+  /** Duration of the task in this run, in milliseconds. */
+  duration: number;
+  /** Duration of the last run that actually executed the task, in milliseconds, when known. */
+  lastRunDuration: number | null;
+  /** Whether the outputs of a missed task were archived into the cache. */
+  archived: boolean;
+}
+
+export interface CacheStatsGroup {
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export interface CacheStats extends CacheStatsGroup {
+  localHits: number;
+  remoteHits: number;
+  /** Estimated time saved by cache hits, in milliseconds, for hits with a known last run duration. */
+  timeSaved: number;
+  projects: Record<string, CacheStatsGroup>;
+  tasks: Record<string, CacheStatsGroup>;
+  targets: TargetCacheStats[];
+}
+
+/** Statuses of tasks that either ran or were restored from the cache, i.e. that looked up the cache. */
+const CACHE_LOOKUP_STATUSES = new Set<ActionStatus>([
+  "passed",
+  "failed",
+  "failed-and-abort",
+  "timed-out",
+  "cached",
+  "cached-from-remote",
+]);
+
+function isCacheableTask(action: Action): action is RunTaskAction {
+  if (action.node.action !== "run-task" || !CACHE_LOOKUP_STATUSES.has(action.status)) {
+    return false;
+  }
+
+  // Tasks with caching disabled aren't hashed. Reports without operations don't tell, so count them in
+  return (
+    action.operations.length === 0 ||
+    cacheHitOf(action) !== null ||
+    action.operations.some((operation: Operation) => operation.meta.type === "hash-generation")
+  );
+}
+
+/** Reads the last run duration of each target from `cache-stats` saved by a previous run. */
+export async function loadLastRunDurations(baselinePath: string): Promise<Map<string, number>> {
+  const durations = new Map<string, number>();
+  if (!baselinePath) {
+    return durations;
+  }
+
+  if (!(await fileExists(baselinePath))) {
+    log.warning(`Cache stats baseline ${baselinePath} does not exist, time saved by the cache is unknown.`);
+    return durations;
+  }
+
+  const baseline = JSON.parse(await readFile(baselinePath, { encoding: "utf8" })) as Partial<CacheStats>;
+  for (const { target, hit, duration, lastRunDuration } of baseline.targets ?? []) {
+    const recorded = hit === null ? duration : lastRunDuration;
+    if (recorded !== null && recorded !== undefined) {
+      durations.set(target, recorded);
+    }
+  }
+
+  return durations;
+}
+
+function toCacheStatsGroup(hits: number, misses: number): CacheStatsGroup {
+  return { hits, misses, hitRate: hits + misses === 0 ? 0 : hits / (hits + misses) };
+}
+
+export function computeCacheStats(report: RunReport, lastRunDurations: Map<string, number>): CacheStats {
+  const targets: TargetCacheStats[] = (report.actions.filter(isCacheableTask) as RunTaskAction[]).map((action) => {
+    const target = action.node.params.target;
+    const hit = cacheHitOf(action);
+    const duration = durationToMillis(action.duration);
+
+    return {
+      target,
+      hit,
+      duration,
+      lastRunDuration: hit === null ? duration : (lastRunDurations.get(target) ?? null),
+      archived: action.operations.some((operation: Operation) => operation.meta.type === "archive-creation"),
+    };
+  });
+
+  const groupBy = (key: (target: TargetCacheStats) => string): Record<string, CacheStatsGroup> => {
+    const counts = new Map<string, { hits: number; misses: number }>();
+    for (const target of targets) {
+      const count = counts.get(key(target)) ?? { hits: 0, misses: 0 };
+      count[target.hit ? "hits" : "misses"]++;
+      counts.set(key(target), count);
+    }
+    return Object.fromEntries([...counts].map(([name, { hits, misses }]) => [name, toCacheStatsGroup(hits, misses)]));
+  };
+
+  const hits = targets.filter(({ hit }) => hit !== null);
+  const timeSaved = hits.reduce(
+    (total, { duration, lastRunDuration }) =>
+      lastRunDuration === null ? total : total + Math.max(lastRunDuration - duration, 0),
+    0,
+  );
+
+  return {
+    ...toCacheStatsGroup(hits.length, targets.length - hits.length),
+    localHits: hits.filter(({ hit }) => hit === "local").length,
+    remoteHits: hits.filter(({ hit }) => hit === "remote").length,
+    timeSaved: Math.round(timeSaved),
+    projects: groupBy(({ target }) => parseTarget(target).project),
+    tasks: groupBy(({ target }) => parseTarget(target).task),
+    targets,
+  };
+}
+
+export function formatCacheStats(stats: CacheStats): string {
+  const cacheable = stats.hits + stats.misses;
+  const saved = stats.targets.some(({ hit, lastRunDuration }) => hit !== null && lastRunDuration !== null)
+    ? `, saving an estimated ${formatDuration(millisToDuration(stats.timeSaved))}`
+    : "";
+
+  const lines: string[] = [
+    "## :zap: Cache Effectiveness",
+    "",
+    `**${formatPercent(stats.hitRate)} cache hit rate**: ${stats.hits} of ${cacheable} cacheable task${cacheable === 1 ? "" : "s"} (${stats.localHits} local, ${stats.remoteHits} remote)${saved}`,
+    "",
+  ];
+
+  const groupTable = (title: string, groups: Record<string, CacheStatsGroup>) => {
+    lines.push(`| ${title} | Hits | Misses | Hit rate |`, "| --- | --- | --- | --- |");
+    for (const [name, { hits, misses, hitRate }] of Object.entries(groups)) {
+      lines.push(`| \`${name}\` | ${hits} | ${misses} | ${formatPercent(hitRate)} |`);
+    }
+    lines.push("");
+  };
+
+  groupTable("Project", stats.projects);
+  groupTable("Task", stats.tasks);
+
+  const misses = stats.targets.filter(({ hit }) => hit === null);
+  if (misses.length > 0) {
+    lines.push(
+      `<details><summary><strong>Cache misses (${misses.length})</strong></summary>`,
+      "",
+      "| Target | Duration | Archived |",
+      "| --- | --- | --- |",
+    );
+    for (const { target, duration, archived } of misses) {
+      lines.push(`| \`${target}\` | ${formatDuration(millisToDuration(duration))} | ${archived ? "yes" : "no"} |`);
+    }
+    lines.push("", "</details>", "");
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,146 @@
+import type { Action, RunReport } from "@moonrepo/types";
+
+import type { FailedTaskInfo } from "./failures.js";
+import type { FailureGroup } from "./fingerprint.js";
+import { stripAnsi } from "./format.js";
+import { formatTaskSections, GITHUB_COMMENT_MAX_SIZE, type MarkdownOptions } from "./markdown.js";
+import { formatStatus, taskStatusOf } from "./overview.js";
+import { categoryOf, parseTarget, type RunTaskAction } from "./report.js";
+
+/** Whether a check run is created for every project, or for every target. */
+export type CheckRunGranularity = "project" | "target";
+
+export type CheckRunConclusion = "success" | "failure" | "cancelled" | "timed_out";
+
+/** Annotation in the shape expected by the GitHub Checks API. */
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  start_column?: number;
+  end_column?: number;
+  annotation_level: "failure" | "warning";
+  title: string;
+  message: string;
+}
+
+export interface CheckRun {
+  name: string;
+  conclusion: CheckRunConclusion;
+  title: string;
+  summary: string;
+  /** Log excerpts of the failed tasks. */
+  text: string;
+  annotations: CheckRunAnnotation[];
+}
+
+/** Longest text the Checks API accepts in the output of a check run. */
+const CHECK_RUN_TEXT_MAX_SIZE = GITHUB_COMMENT_MAX_SIZE - 1;
+
+/** Conclusions from worst to best, a check run concludes with the worst conclusion of its tasks. */
+const CONCLUSIONS: CheckRunConclusion[] = ["failure", "timed_out", "cancelled", "success"];
+
+function conclusionOf(task: RunTaskAction): CheckRunConclusion {
+  switch (categoryOf(task)) {
+    case "timeout":
+      return "timed_out";
+    // Allowed failures don't fail the run, so they don't fail a required check either
+    case "allowed-failure":
+      return "success";
+  }
+
+  switch (taskStatusOf(task)) {
+    case "failed":
+    case "failed-and-abort":
+    case "invalid":
+      return "failure";
+    case "timed-out":
+      return "timed_out";
+    // Tasks that didn't run must not pass a required check
+    case "skipped":
+    case "aborted":
+      return "cancelled";
+    default:
+      return "success";
+  }
+}
+
+function titleOf(tasks: RunTaskAction[], failures: FailedTaskInfo[], conclusion: CheckRunConclusion): string {
+  const [failure] = failures;
+  if (failures.length === 1 && failure) {
+    return (failure.error ? stripAnsi(failure.error).split("\n")[0] : undefined) || `${failure.target} failed`;
+  }
+  if (failures.length > 1) {
+    return `${failures.length} tasks failed`;
+  }
+  if (conclusion === "success") {
+    return tasks.length === 1 ? "Task passed" : `${tasks.length} tasks passed`;
+  }
+  return tasks.length === 1 ? "Task didn't finish" : `${tasks.length} tasks didn't finish`;
+}
+
+/** Log excerpts of the failures, each shortened by a fair share to fit in the output of a check run. */
+function formatCheckRunText(failures: FailedTaskInfo[], options: MarkdownOptions): string {
+  // Every failure gets its own excerpt, so each one is a group of its own
+  const groups = failures.map(
+    (failure): FailureGroup => ({ fingerprint: failure.fingerprint, failure, failures: [failure] }),
+  );
+
+  return formatTaskSections(groups, options, {
+    budget: CHECK_RUN_TEXT_MAX_SIZE,
+    section: ({ failure }, body, index) => `${index > 0 ? "\n\n" : ""}### \`${failure.target}\`\n\n${body}`,
+    omittedNote: (count) =>
+      count > 0
+        ? `\n\n_The logs of ${count} more failure${count === 1 ? " are" : "s are"} left out to fit the check run size limit._`
+        : "",
+  });
+}
+
+function annotationsOf(failures: FailedTaskInfo[]): CheckRunAnnotation[] {
+  return failures.flatMap((failure) =>
+    failure.diagnostics.map(
+      (diagnostic): CheckRunAnnotation => ({
+        path: diagnostic.file,
+        start_line: diagnostic.line,
+        end_line: diagnostic.line,
+        ...(diagnostic.column !== null && { start_column: diagnostic.column, end_column: diagnostic.column }),
+        annotation_level: diagnostic.severity === "error" ? "failure" : "warning",
+        title: diagnostic.target,
+        message: diagnostic.message,
+      }),
+    ),
+  );
+}
+
+/** Builds a check run for every project or target of the run, passing ones included. */
+export function buildCheckRuns(
+  report: RunReport,
+  failures: FailedTaskInfo[],
+  granularity: CheckRunGranularity,
+  options: MarkdownOptions,
+): CheckRun[] {
+  const groups = new Map<string, RunTaskAction[]>();
+  for (const action of report.actions.filter((action: Action) => action.node.action === "run-task")) {
+    const task = action as RunTaskAction;
+    const target = task.node.params.target;
+    const key = granularity === "project" ? parseTarget(target).project : target;
+    groups.set(key, [...(groups.get(key) ?? []), task]);
+  }
+
+  return [...groups].map(([key, tasks]): CheckRun => {
+    const targets = new Set(tasks.map((task) => task.node.params.target));
+    const groupFailures = failures.filter((failure) => targets.has(failure.target));
+    const conclusion = tasks
+      .map(conclusionOf)
+      .reduce((worst, next) => (CONCLUSIONS.indexOf(next) < CONCLUSIONS.indexOf(worst) ? next : worst), "success");
+
+    return {
+      name: `moon ci / ${key}`,
+      conclusion,
+      title: titleOf(tasks, groupFailures, conclusion),
+      summary: tasks.map((task) => `- \`${task.node.params.target}\` ${formatStatus(taskStatusOf(task))}`).join("\n"),
+      text: formatCheckRunText(groupFailures, options),
+      annotations: annotationsOf(groupFailures),
+    };
+  });
+}
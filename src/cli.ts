@@ -0,0 +1,198 @@
+#!/usr/bin/env node
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+import type { RunReport } from "@moonrepo/types";
+
+import {
+  analyzeRootCauses,
+  collectRunResults,
+  DEFAULT_ERROR_PATTERNS,
+  formatCategorySections,
+  formatFlakyTasks,
+  formatJUnitReport,
+  formatStepSummary,
+  formatTaskComment,
+  groupFailures,
+  loadActionGraph,
+  loadRunReport,
+  type MarkdownOptions,
+  type RunResults,
+  sameFailureOf,
+  writeExport,
+} from "./index.js";
+
+const OUTPUT_FORMATS = ["markdown", "json", "text", "junit"] as const;
+
+type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+const USAGE = `Usage: moon-ci-booster [options]
+
+Summarizes the failing tasks of the last \`moon ci\` or \`moon run\` in a moon workspace.
+Exits with 1 when tasks failed, and with 2 on invalid options or a missing run report.
+
+Options:
+  --workspace-root <path>  Root of the moon workspace. Defaults to the working directory.
+  --format <format>        One of: ${OUTPUT_FORMATS.join(", ")}. Defaults to text.
+  --output <path>          Write the summary to a file instead of stdout.
+  --action-graph <path>    Output of \`moon action-graph --json\`, used to tell root causes from blocked tasks.
+  -h, --help               Show this help.
+`;
+
+const MARKDOWN_OPTIONS: MarkdownOptions = {
+  jobGroup: "",
+  excerpt: { patterns: DEFAULT_ERROR_PATTERNS, contextLines: 5 },
+};
+
+function formatMarkdown(results: RunResults): string {
+  const { failures, flakyTasks, rootCauses } = results;
+  const sections: string[] = [];
+
+  if (failures.length > 0) {
+    sections.push(formatStepSummary(failures, rootCauses));
+    for (const group of groupFailures(failures.filter(({ blockedBy }) => blockedBy.length === 0))) {
+      const { failure } = group;
+      const details = formatTaskComment(failure, MARKDOWN_OPTIONS, {
+        maxSize: Number.POSITIVE_INFINITY,
+        standalone: false,
+        sameFailure: sameFailureOf(group),
+      });
+      sections.push(`### :x: \`${failure.target}\`\n\n${details}`);
+    }
+  }
+  sections.push(...formatCategorySections(results, MARKDOWN_OPTIONS));
+  if (flakyTasks.length > 0) {
+    sections.push(formatFlakyTasks(flakyTasks, MARKDOWN_OPTIONS.excerpt));
+  }
+
+  return sections.length > 0 ? sections.join("\n") : "No failing tasks found.\n";
+}
+
+/** Formats failures for a terminal, keeping the colours of the task logs. */
+function formatText({ failures, flakyTasks, rootCauses }: RunResults, colors: boolean): string {
+  const paint = (code: string, text: string) => (colors ? `\u001b[${code}m${text}\u001b[0m` : text);
+  const lines: string[] = [];
+
+  for (const group of groupFailures(failures.filter(({ blockedBy }) => blockedBy.length === 0))) {
+    const { failure } = group;
+    lines.push(paint("1;31", `✖ ${failure.target}`));
+    if (failure.error) {
+      lines.push(`  Error: ${failure.error}`);
+    }
+    if (group.failures.length > 1) {
+      lines.push(`  Same failure in: ${sameFailureOf(group).join(", ")}`);
+    }
+    if (failure.command) {
+      lines.push(paint("2", `  Command: ${failure.command}`));
+    }
+
+    for (const [label, output] of [
+      ["stderr", failure.stderr],
+      ["stdout", failure.stdout],
+    ] as const) {
+      if (output.trim() === "") continue;
+      lines.push("", paint("2", `── ${label} ──`), output.trimEnd());
+    }
+    lines.push("");
+  }
+
+  for (const { target, blockedBy } of rootCauses.blocked) {
+    lines.push(paint("2", `⊘ ${target} blocked by ${blockedBy.join(", ")}`));
+  }
+  if (rootCauses.blocked.length > 0) {
+    lines.push("");
+  }
+
+  for (const { target, attempts } of flakyTasks) {
+    lines.push(paint("33", `⚠ ${target} is flaky, it passed after ${attempts.length} attempts`));
+  }
+  if (flakyTasks.length > 0) {
+    lines.push("");
+  }
+
+  const rootFailures = failures.length - failures.filter(({ blockedBy }) => blockedBy.length > 0).length;
+  const blocked = rootCauses.blocked.length;
+  lines.push(
+    failures.length > 0
+      ? paint(
+          "1;31",
+          `${rootFailures} task${rootFailures === 1 ? "" : "s"} failed${blocked > 0 ? `, ${blocked} blocked` : ""}`,
+        )
+      : paint("32", "No failing tasks found."),
+  );
+
+  return `${lines.join("\n")}\n`;
+}
+
+async function render(
+  format: OutputFormat,
+  report: RunReport,
+  results: RunResults,
+  { workspaceRoot, colors }: { workspaceRoot: string; colors: boolean },
+): Promise<string> {
+  switch (format) {
+    case "markdown":
+      return formatMarkdown(results);
+    case "json": {
+      const { failures, flakyTasks, rootCauses } = results;
+      return `${JSON.stringify({ failures, flakyTasks, blocked: rootCauses.blocked }, null, 2)}\n`;
+    }
+    case "text":
+      return formatText(results, colors);
+    case "junit":
+      return formatJUnitReport(report, workspaceRoot);
+  }
+}
+
+async function main(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      "workspace-root": { type: "string" },
+      format: { type: "string", default: "text" },
+      output: { type: "string" },
+      "action-graph": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Invalid --format "${values.format}", expected one of: ${OUTPUT_FORMATS.join(", ")}.`);
+  }
+
+  const workspaceRoot = path.resolve(values["workspace-root"] ?? process.cwd());
+  const runReport = await loadRunReport(workspaceRoot);
+  if (!runReport) {
+    throw new Error(`Run report does not exist in ${workspaceRoot}, has \`moon ci\` or \`moon run\` ran?`);
+  }
+
+  const { report } = runReport;
+  const results = await collectRunResults(report, {
+    workspaceRoot,
+    rootCauses: analyzeRootCauses(report, await loadActionGraph(values["action-graph"] ?? "")),
+  });
+
+  const colors = !values.output && process.stdout.isTTY && !("NO_COLOR" in process.env);
+  const contents = await render(format, report, results, { workspaceRoot, colors });
+
+  if (values.output) {
+    await writeExport(values.output, contents);
+  } else {
+    process.stdout.write(contents);
+  }
+
+  return results.failures.length > 0 ? 1 : 0;
+}
+
+try {
+  process.exitCode = await main(process.argv.slice(2));
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 2;
+}
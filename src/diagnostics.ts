@@ -0,0 +1,197 @@
+import path from "node:path";
+
+import { stripAnsi } from "./format.js";
+import { fileExists } from "./report.js";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export interface Diagnostic {
+  target: string;
+  /** Path relative to the repository root. */
+  file: string;
+  line: number;
+  column: number | null;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+type RawDiagnostic = Omit<Diagnostic, "target">;
+
+/** Named groups captured by the patterns of the diagnostic matchers. */
+interface DiagnosticGroups {
+  file?: string | undefined;
+  line?: string | undefined;
+  column?: string | undefined;
+  severity?: string | undefined;
+  message?: string | undefined;
+  code?: string | undefined;
+  category?: string | undefined;
+}
+
+interface DiagnosticMatcher {
+  pattern: RegExp;
+  /** Builds a diagnostic from a matching line, `lines` and `index` give access to the surrounding output. */
+  build(groups: DiagnosticGroups, lines: string[], index: number): RawDiagnostic | null;
+}
+
+function toSeverity(value: string | undefined): DiagnosticSeverity {
+  return value === "warning" ? "warning" : "error";
+}
+
+function fromGroups(groups: DiagnosticGroups): RawDiagnostic | null {
+  if (!groups.file || !groups.line || !groups.message) return null;
+
+  return {
+    file: groups.file,
+    line: Number(groups.line),
+    column: groups.column ? Number(groups.column) : null,
+    severity: toSeverity(groups.severity),
+    message: groups.message.trim(),
+  };
+}
+
+const FILE_PATTERN = String.raw`(?<file>[^\s:()'"]+\.\w+)`;
+
+const DIAGNOSTIC_MATCHERS: DiagnosticMatcher[] = [
+  // tsc: src/index.ts(3,7): error TS2322: ...
+  {
+    pattern: new RegExp(
+      String.raw`^${FILE_PATTERN}\((?<line>\d+),(?<column>\d+)\): (?<severity>error|warning) (?<message>TS\d+: .+)$`,
+    ),
+    build: fromGroups,
+  },
+  // tsc --pretty: src/index.ts:3:7 - error TS2322: ...
+  {
+    pattern: new RegExp(
+      String.raw`^${FILE_PATTERN}:(?<line>\d+):(?<column>\d+) - (?<severity>error|warning) (?<message>TS\d+: .+)$`,
+    ),
+    build: fromGroups,
+  },
+  // biome: src/index.ts:3:7 lint/style/useConst FIXABLE ━━━━, with the message on one of the following lines
+  {
+    pattern: new RegExp(
+      String.raw`^${FILE_PATTERN}:(?<line>\d+):(?<column>\d+) (?<category>[\w/]+)(?:\s+FIXABLE)?\s+━+$`,
+    ),
+    build: (groups, lines, index) => {
+      for (const line of lines.slice(index + 1, index + 4)) {
+        const message = line.match(/^\s*(?<symbol>[✖×!⚠ℹ])\s+(?<text>.+)$/u)?.groups as
+          | { symbol: string; text: string }
+          | undefined;
+        if (message) {
+          return fromGroups({
+            ...groups,
+            severity: message.symbol === "!" || message.symbol === "⚠" ? "warning" : "error",
+            message: `${message.text} (${groups.category})`,
+          });
+        }
+      }
+      return null;
+    },
+  },
+  // rustc, cargo: error[E0308]: mismatched types, with the location on a following "  --> src/main.rs:4:5" line
+  {
+    pattern: /^(?<severity>error|warning)(?:\[(?<code>E\d+)\])?: (?<message>.+)$/,
+    build: (groups, lines, index) => {
+      for (const line of lines.slice(index + 1, index + 4)) {
+        const location = line.match(/^\s*--> (?<file>.+?):(?<line>\d+):(?<column>\d+)$/)?.groups as
+          | DiagnosticGroups
+          | undefined;
+        if (location) {
+          const code = groups.code ? `${groups.code}: ` : "";
+          return fromGroups({ ...groups, ...location, message: `${code}${groups.message}` });
+        }
+      }
+      return null;
+    },
+  },
+  // eslint (stylish): "  3:10  error  'x' is defined but never used  no-unused-vars", below a line with the file
+  {
+    pattern: /^\s+(?<line>\d+):(?<column>\d+)\s+(?<severity>error|warning)\s+(?<message>.+?)$/,
+    build: (groups, lines, index) => {
+      let fileIndex = index - 1;
+      while (fileIndex >= 0 && /^\s+\d+:\d+\s/.test(lines[fileIndex] ?? "")) {
+        fileIndex--;
+      }
+
+      const file = lines[fileIndex]?.trim();
+      if (!file || /\s/.test(file)) return null;
+
+      return fromGroups({ ...groups, file, message: groups.message?.replace(/\s{2,}/g, " ") });
+    },
+  },
+  // gcc, clang, go vet, eslint (unix): main.c:10:5: error: ..., or ./main.go:10:2: ...
+  {
+    pattern: new RegExp(
+      String.raw`^(?:vet: )?${FILE_PATTERN}:(?<line>\d+):(?<column>\d+): (?:(?:fatal )?(?<severity>error|warning|note): )?(?<message>.+)$`,
+    ),
+    build: (groups) => (groups.severity === "note" ? null : fromGroups(groups)),
+  },
+  // pytest: tests/test_app.py:12: AssertionError
+  {
+    pattern: /^(?<file>[^\s:]+\.py):(?<line>\d+): (?<message>\w*(?:Error|Exception|Failed)\b.*)$/,
+    build: fromGroups,
+  },
+];
+
+function parseDiagnostics(output: string): RawDiagnostic[] {
+  const lines = stripAnsi(output).split(/\r?\n/);
+  const diagnostics: RawDiagnostic[] = [];
+
+  lines.forEach((line, index) => {
+    for (const { pattern, build } of DIAGNOSTIC_MATCHERS) {
+      const groups = line.match(pattern)?.groups;
+      if (!groups) continue;
+
+      const diagnostic = build(groups as DiagnosticGroups, lines, index);
+      if (diagnostic) {
+        diagnostics.push(diagnostic);
+        break;
+      }
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Resolves a path printed by a tool, which is usually relative to the project the task ran in, to a path relative
+ * to the repository root. Returns `null` for paths outside of the repository.
+ */
+async function resolveDiagnosticPath(
+  file: string,
+  {
+    workspaceRoot,
+    repositoryRoot,
+    projectSource,
+  }: { workspaceRoot: string; repositoryRoot: string; projectSource?: string },
+): Promise<string | null> {
+  const candidates = path.isAbsolute(file)
+    ? [file]
+    : [...(projectSource ? [path.resolve(workspaceRoot, projectSource, file)] : []), path.resolve(workspaceRoot, file)];
+
+  const resolved = (await Promise.all(candidates.map(fileExists))).indexOf(true);
+  const absolute = candidates[Math.max(resolved, 0)] as string;
+  const relative = path.relative(repositoryRoot, absolute);
+
+  return relative.startsWith("..") || path.isAbsolute(relative) ? null : relative.split(path.sep).join("/");
+}
+
+export async function extractDiagnostics(
+  target: string,
+  { stdout, stderr }: { stdout: string; stderr: string },
+  context: { workspaceRoot: string; repositoryRoot: string; projectSource?: string },
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+
+  for (const diagnostic of [...parseDiagnostics(stderr), ...parseDiagnostics(stdout)]) {
+    const file = await resolveDiagnosticPath(diagnostic.file, context);
+    const key = `${file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`;
+    if (!file || seen.has(key)) continue;
+
+    seen.add(key);
+    diagnostics.push({ ...diagnostic, target, file });
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,167 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { ActionStatus, RunReport } from "@moonrepo/types";
+
+import type { Diagnostic } from "./diagnostics.js";
+import { durationToMillis, stripAnsi } from "./format.js";
+import { log } from "./logger.js";
+import { DEFAULT_SECRET_PATTERNS, redactSecrets, secretsOf } from "./redact.js";
+import { categoryOf, parseTarget, type RunTaskAction } from "./report.js";
+import { resolveTaskLogs } from "./task-logs.js";
+
+const JUNIT_SKIPPED_STATUSES = new Set<ActionStatus>(["skipped", "aborted"]);
+
+function escapeXml(text: string): string {
+  return (
+    stripAnsi(text)
+      // biome-ignore lint/suspicious/noControlCharactersInRegex: intentionally dropping characters not allowed in XML
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+      .replaceAll("&", "&amp;")
+      .replaceAll("<", "&lt;")
+      .replaceAll(">", "&gt;")
+      .replaceAll('"', "&quot;")
+  );
+}
+
+function formatSeconds(millis: number): string {
+  return (millis / 1000).toFixed(3);
+}
+
+interface JUnitTestCase {
+  xml: string;
+  millis: number;
+  failed: boolean;
+  skipped: boolean;
+}
+
+async function formatJUnitTestCase(
+  action: RunTaskAction,
+  workspaceRoot: string,
+  redact: (text: string) => string,
+): Promise<JUnitTestCase> {
+  const identity = parseTarget(action.node.params.target);
+  const logs = await resolveTaskLogs(workspaceRoot, action);
+  const stdout = redact(logs.stdout);
+  const stderr = redact(logs.stderr);
+  const millis = durationToMillis(action.duration);
+  const category = categoryOf(action);
+  const failed = category === "failure" || category === "timeout";
+  const skipped = category === "aborted" || JUNIT_SKIPPED_STATUSES.has(action.status);
+
+  const lines = [
+    `    <testcase name="${escapeXml(identity.task)}" classname="${escapeXml(identity.project)}" time="${formatSeconds(millis)}">`,
+  ];
+  if (failed) {
+    const message = action.error ? redact(action.error) : `Task ${identity.project}:${identity.task} failed.`;
+    lines.push(
+      `      <failure message="${escapeXml(message)}" type="${category === "timeout" ? "timed-out" : action.status}">${escapeXml(message)}</failure>`,
+    );
+  } else if (skipped) {
+    lines.push(`      <skipped message="${action.status}"/>`);
+  } else if (category === "allowed-failure") {
+    // Allowed failures don't fail the run, so they pass, flagged for tools that read testcase properties
+    lines.push("      <properties>", '        <property name="allowed-failure" value="true"/>', "      </properties>");
+  }
+  if (stdout.trim() !== "") {
+    lines.push(`      <system-out>${escapeXml(stdout.trim())}</system-out>`);
+  }
+  if (stderr.trim() !== "") {
+    lines.push(`      <system-err>${escapeXml(stderr.trim())}</system-err>`);
+  }
+  lines.push("    </testcase>");
+
+  return { xml: lines.join("\n"), millis, failed, skipped };
+}
+
+function formatJUnitCounts(testCases: JUnitTestCase[]): string {
+  const failures = testCases.filter((testCase) => testCase.failed).length;
+  const skipped = testCases.filter((testCase) => testCase.skipped).length;
+  const millis = testCases.reduce((total, testCase) => total + testCase.millis, 0);
+  return `tests="${testCases.length}" failures="${failures}" skipped="${skipped}" time="${formatSeconds(millis)}"`;
+}
+
+/**
+ * Formats every `run-task` action as a JUnit testcase, grouped into a testsuite per project, with secrets masked in
+ * the logs and errors like in comments.
+ */
+export async function formatJUnitReport(
+  report: RunReport,
+  workspaceRoot: string,
+  secretPatterns = DEFAULT_SECRET_PATTERNS,
+): Promise<string> {
+  const secrets = secretsOf(report);
+  const redact = (text: string) => redactSecrets(text, secrets, secretPatterns).text;
+
+  const suites = new Map<string, JUnitTestCase[]>();
+  for (const action of report.actions) {
+    if (action.node.action !== "run-task") continue;
+
+    const { project } = parseTarget((action as RunTaskAction).node.params.target);
+    const testCases = suites.get(project) ?? [];
+    testCases.push(await formatJUnitTestCase(action as RunTaskAction, workspaceRoot, redact));
+    suites.set(project, testCases);
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="moon" ${formatJUnitCounts([...suites.values()].flat())}>`,
+  ];
+  for (const [project, testCases] of suites) {
+    lines.push(`  <testsuite name="${escapeXml(project)}" ${formatJUnitCounts(testCases)}>`);
+    lines.push(...testCases.map((testCase) => testCase.xml));
+    lines.push("  </testsuite>");
+  }
+  lines.push("</testsuites>");
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** Formats diagnostics as a SARIF 2.1.0 log, with a rule per task that reported them. */
+export function formatSarifReport(diagnostics: Diagnostic[]): string {
+  const targets = [...new Set(diagnostics.map((diagnostic) => diagnostic.target))];
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "moon-ci-booster",
+            informationUri: "https://github.com/NatzkaLabsOpenSource/moon-ci-booster",
+            rules: targets.map((target) => ({ id: target, shortDescription: { text: `Reported by ${target}` } })),
+          },
+        },
+        results: diagnostics.map((diagnostic) => ({
+          ruleId: diagnostic.target,
+          ruleIndex: targets.indexOf(diagnostic.target),
+          level: diagnostic.severity,
+          message: { text: diagnostic.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: diagnostic.file, uriBaseId: "%SRCROOT%" },
+                region: {
+                  startLine: diagnostic.line,
+                  ...(diagnostic.column !== null && { startColumn: diagnostic.column }),
+                },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+
+  return `${JSON.stringify(sarif, null, 2)}\n`;
+}
+
+/** Writes an exported report, creating missing directories, and returns its absolute path. */
+export async function writeExport(filePath: string, contents: string): Promise<string> {
+  const absolutePath = path.resolve(filePath);
+  await mkdir(path.dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, contents);
+  log.debug(`Wrote ${absolutePath}`);
+  return absolutePath;
+}
@@ -0,0 +1,217 @@
+import type { RunReport } from "@moonrepo/types";
+
+import type { FailedTaskInfo } from "./failures.js";
+import { durationToMillis, formatPercent } from "./format.js";
+import { cacheHitOf } from "./overview.js";
+import { categoryOf, type RunTaskAction } from "./report.js";
+
+/** Number of recent runs kept per target and branch in the history, which failure rates are computed over. */
+const FAILURE_HISTORY_RUNS = 20;
+/** Upper bound for the number of entries in the history, the oldest are dropped first, e.g. of merged branches. */
+const FAILURE_HISTORY_MAX_ENTRIES = 10_000;
+
+/** Run of a target, stored as a line of the NDJSON history file. */
+export interface FailureHistoryEntry {
+  target: string;
+  status: "passed" | "failed";
+  /** Duration in milliseconds. */
+  duration: number;
+  /** Fingerprint of the failure, `null` when the target passed. */
+  fingerprint: string | null;
+  commit: string;
+  branch: string;
+}
+
+/** Branches failure rates are reported for. */
+export interface HistoryBranches {
+  /** Branch of the run, e.g. the head branch of the pull request. */
+  branch: string;
+  defaultBranch: string;
+}
+
+export interface FailureRate {
+  branch: string;
+  failed: number;
+  runs: number;
+}
+
+export interface FailingTarget {
+  target: string;
+  failed: number;
+  runs: number;
+  /** Most recent failed run. */
+  lastFailure: FailureHistoryEntry;
+}
+
+/** Parses an NDJSON history file, skipping lines that aren't entries, e.g. when a save was cut short. */
+export function parseFailureHistory(text: string): FailureHistoryEntry[] {
+  const entries: FailureHistoryEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+
+    try {
+      const entry = JSON.parse(line) as Partial<FailureHistoryEntry>;
+      if (typeof entry.target === "string" && (entry.status === "passed" || entry.status === "failed")) {
+        entries.push({
+          target: entry.target,
+          status: entry.status,
+          duration: entry.duration ?? 0,
+          fingerprint: entry.fingerprint ?? null,
+          commit: entry.commit ?? "",
+          branch: entry.branch ?? "",
+        });
+      }
+    } catch {
+      // Ignored, a single broken line shouldn't lose the rest of the history
+    }
+  }
+
+  return entries;
+}
+
+export function formatFailureHistory(entries: FailureHistoryEntry[]): string {
+  return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
+
+/** How a task is recorded in the history, `null` when it isn't recorded. */
+function historyStatusOf(action: RunTaskAction): FailureHistoryEntry["status"] | null {
+  switch (categoryOf(action)) {
+    case "failure":
+    case "timeout":
+      return "failed";
+    // Allowed failures say nothing about whether the target is healthy, and aborted tasks didn't finish
+    case "allowed-failure":
+    case "aborted":
+      return null;
+    default:
+      return action.status === "passed" && !cacheHitOf(action) ? "passed" : null;
+  }
+}
+
+/**
+ * Appends the tasks that ran in the report to the history, with the fingerprints of the failures. Timeouts count as
+ * failed runs. Tasks restored from the cache, allowed failures and tasks that didn't finish aren't recorded.
+ */
+export function recordRun(
+  history: FailureHistoryEntry[],
+  report: RunReport,
+  failures: FailedTaskInfo[],
+  { commit, branch }: { commit: string; branch: string },
+): FailureHistoryEntry[] {
+  const fingerprints = new Map(failures.map((failure) => [failure.target, failure.fingerprint]));
+  const entries = [...history];
+
+  for (const action of report.actions) {
+    const status = action.node.action === "run-task" ? historyStatusOf(action as RunTaskAction) : null;
+    if (!status) {
+      continue;
+    }
+
+    const target: string = (action as RunTaskAction).node.params.target;
+    entries.push({
+      target,
+      status,
+      duration: Math.round(durationToMillis(action.duration)),
+      fingerprint: status === "failed" ? (fingerprints.get(target) ?? null) : null,
+      commit,
+      branch,
+    });
+  }
+
+  // Keep the most recent runs of every target on every branch, dropping from the front
+  const kept = new Map<string, number>();
+  const pruned = entries
+    .reverse()
+    .filter(({ target, branch }) => {
+      const key = `${branch}\u0000${target}`;
+      const count = (kept.get(key) ?? 0) + 1;
+      kept.set(key, count);
+      return count <= FAILURE_HISTORY_RUNS;
+    })
+    .slice(0, FAILURE_HISTORY_MAX_ENTRIES);
+
+  return pruned.reverse();
+}
+
+/** How often the target failed in its recorded runs on the branch of the run, and on the default branch. */
+export function failureRatesOf(
+  history: FailureHistoryEntry[],
+  target: string,
+  { branch, defaultBranch }: HistoryBranches,
+): FailureRate[] {
+  const rateOn = (name: string): FailureRate => {
+    const runs = history.filter((entry) => entry.target === target && entry.branch === name);
+    return { branch: name, failed: runs.filter(({ status }) => status === "failed").length, runs: runs.length };
+  };
+
+  return [...new Set([branch, defaultBranch])].map(rateOn).filter(({ runs }) => runs > 0);
+}
+
+/** Adds the failure rates of each failed target from the history, which is expected to include the current run. */
+export function withFailureRates(
+  failures: FailedTaskInfo[],
+  history: FailureHistoryEntry[],
+  branches: HistoryBranches,
+): FailedTaskInfo[] {
+  return failures.map((failure) => ({ ...failure, failureRates: failureRatesOf(history, failure.target, branches) }));
+}
+
+/** e.g. "Failed 3 of the last 10 runs on `feature`, and 1 of the last 20 runs on `main`." */
+export function formatFailureRates(rates: FailureRate[]): string | null {
+  if (rates.length === 0) {
+    return null;
+  }
+
+  const parts = rates.map(
+    ({ branch, failed, runs }) =>
+      `${failed} of the last ${runs} run${runs === 1 ? "" : "s"} on ${branch ? `\`${branch}\`` : "this branch"}`,
+  );
+  return `Failed ${parts.join(", and ")}.`;
+}
+
+/** Targets with the most failed runs in the history, the most recently failed first among equals. */
+export function topFailingTargets(history: FailureHistoryEntry[], count: number): FailingTarget[] {
+  const stats = new Map<string, { failed: number; runs: number; lastFailure: number }>();
+  history.forEach((entry, index) => {
+    const target = stats.get(entry.target) ?? { failed: 0, runs: 0, lastFailure: -1 };
+    target.runs++;
+    if (entry.status === "failed") {
+      target.failed++;
+      target.lastFailure = index;
+    }
+    stats.set(entry.target, target);
+  });
+
+  return [...stats]
+    .filter(([, { failed }]) => failed > 0)
+    .sort(([, a], [, b]) => b.failed - a.failed || b.lastFailure - a.lastFailure)
+    .slice(0, count)
+    .map(([target, { failed, runs, lastFailure }]) => ({
+      target,
+      failed,
+      runs,
+      lastFailure: history[lastFailure] as FailureHistoryEntry,
+    }));
+}
+
+export function formatTopFailingTargets(targets: FailingTarget[]): string {
+  const lines: string[] = [
+    "## :chart_with_downwards_trend: Top Failing Targets",
+    "",
+    `Targets that failed most often in the last ${FAILURE_HISTORY_RUNS} recorded runs of each branch`,
+    "",
+    "| Target | Failed | Runs | Failure rate | Last failure |",
+    "| --- | --- | --- | --- | --- |",
+  ];
+
+  for (const { target, failed, runs, lastFailure } of targets) {
+    const commit = lastFailure.commit ? `\`${lastFailure.commit.slice(0, 7)}\`` : "";
+    const branch = lastFailure.branch ? `\`${lastFailure.branch}\`` : "";
+    lines.push(
+      `| \`${target}\` | ${failed} | ${runs} | ${formatPercent(failed / runs)} | ${[commit, branch].filter(Boolean).join(" on ")} |`,
+    );
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
@@ -0,0 +1,188 @@
+import type { Action, Duration, RunReport } from "@moonrepo/types";
+
+import type { BaselineStatus } from "./baseline.js";
+import { type Diagnostic, extractDiagnostics } from "./diagnostics.js";
+import type { FailureRate } from "./failure-history.js";
+import { fingerprintOf } from "./fingerprint.js";
+import { DEFAULT_SECRET_PATTERNS, redactSecrets, secretsOf } from "./redact.js";
+import {
+  attemptsOf,
+  categoryOf,
+  commandOf,
+  isFailedTask,
+  isFlakyTask,
+  loadProjectSources,
+  parseTarget,
+  type ResultCategory,
+  type RunTaskAction,
+  type TaskAttempt,
+  timeoutOf,
+} from "./report.js";
+import { type Reproduction, reproductionOf } from "./reproduce.js";
+import type { RootCauseAnalysis } from "./root-cause.js";
+import { resolveTaskLogs, type TaskLogSource } from "./task-logs.js";
+
+export interface FailedTaskInfo {
+  target: string;
+  category: Exclude<ResultCategory, "aborted">;
+  error: string | null;
+  command: string | null;
+  duration: Duration | null;
+  /** Configured timeout in seconds, `null` when the task has none. */
+  timeout: number | null;
+  stdout: string;
+  stderr: string;
+  /** Where the logs were found, `null` when they weren't found anywhere. */
+  logSource: TaskLogSource | null;
+  diagnostics: Diagnostic[];
+  /** How the failure compares to the baseline report, or `null` without a baseline. */
+  baseline: BaselineStatus | null;
+  /** Root causes this failure was blocked by, empty when it is a root cause itself. */
+  blockedBy: string[];
+  /** Targets that failed or were skipped because of this failure. */
+  blocks: string[];
+  /** Job group the failure was reported by, when aggregating the reports of several shards. */
+  shard: string | null;
+  /** Owners of the project, empty unless they were resolved. */
+  owners: string[];
+  /** Number of secrets masked in the error, command and logs. */
+  redactions: number;
+  reproduction: Reproduction;
+  /** Hash of the normalized error and log excerpt, shared by tasks that fail the same way. */
+  fingerprint: string;
+  /** How often the target failed recently on the branch of the run and on the default branch, empty without history. */
+  failureRates: FailureRate[];
+}
+
+export interface FlakyTaskInfo {
+  target: string;
+  attempts: TaskAttempt[];
+  /** Number of secrets masked in the logs of the attempts. */
+  redactions: number;
+}
+
+export interface AbortedTaskInfo {
+  target: string;
+  duration: Duration | null;
+}
+
+export interface CollectFailuresOptions {
+  workspaceRoot: string;
+  /** Root that diagnostic paths are made relative to, defaults to the workspace root. */
+  repositoryRoot?: string;
+  /** Targets that failed in the baseline report, `null` without a baseline. */
+  baselineFailures?: Set<string> | null;
+  /** Root causes of the failures, without an analysis every failure is a root cause. */
+  rootCauses?: RootCauseAnalysis | null;
+  /** Job group the report belongs to, when aggregating the reports of several shards. */
+  shard?: string | null;
+  /** Owners by project, to mention them on failures of their projects. */
+  projectOwners?: Map<string, string[]> | null;
+  /** Patterns of secrets masked besides the environment variable values of the tasks. */
+  secretPatterns?: RegExp[];
+}
+
+/** Collects the given failed tasks of the report, with their logs and the diagnostics found in them. */
+async function collectTasks(
+  report: RunReport,
+  actions: RunTaskAction[],
+  {
+    workspaceRoot,
+    repositoryRoot = workspaceRoot,
+    baselineFailures = null,
+    rootCauses = null,
+    shard = null,
+    projectOwners = null,
+    secretPatterns = DEFAULT_SECRET_PATTERNS,
+  }: CollectFailuresOptions,
+): Promise<FailedTaskInfo[]> {
+  const projectSources = await loadProjectSources(workspaceRoot);
+  const secrets = secretsOf(report);
+
+  const failures: FailedTaskInfo[] = [];
+  for (const action of actions) {
+    const target = action.node.params.target;
+    const identity = parseTarget(target);
+    const projectSource = projectSources.get(identity.project);
+
+    // Mask secrets before anything else sees the logs, diagnostics included
+    let redactions = 0;
+    const redact = (text: string) => {
+      const redaction = redactSecrets(text, secrets, secretPatterns);
+      redactions += redaction.count;
+      return redaction.text;
+    };
+    const rawLogs = await resolveTaskLogs(workspaceRoot, action);
+    const logs = { stdout: redact(rawLogs.stdout), stderr: redact(rawLogs.stderr) };
+    const error = action.error ? redact(action.error) : null;
+    const command = commandOf(action);
+    const category = categoryOf(action);
+    // Passthrough arguments of the run may carry tokens too
+    const reproduction = reproductionOf(report, action, projectSource);
+    reproduction.command = redact(reproduction.command);
+
+    failures.push({
+      target: `${identity.project}:${identity.task}`,
+      category: category === "allowed-failure" || category === "timeout" ? category : "failure",
+      error,
+      command: command && redact(command),
+      duration: action.duration ?? null,
+      timeout: timeoutOf(action),
+      ...logs,
+      logSource: rawLogs.source,
+      diagnostics: await extractDiagnostics(`${identity.project}:${identity.task}`, logs, {
+        workspaceRoot,
+        repositoryRoot,
+        ...(projectSource !== undefined && { projectSource }),
+      }),
+      baseline: baselineFailures ? (baselineFailures.has(target) ? "pre-existing" : "new") : null,
+      blockedBy: rootCauses?.blocked.find((blocked) => blocked.target === target)?.blockedBy ?? [],
+      blocks: (rootCauses?.blocked ?? [])
+        .filter(({ blockedBy }) => blockedBy.includes(target))
+        .map(({ target }) => target),
+      shard,
+      owners: projectOwners?.get(identity.project) ?? [],
+      redactions,
+      reproduction,
+      fingerprint: fingerprintOf({ target: `${identity.project}:${identity.task}`, error, ...logs }),
+      failureRates: [],
+    });
+  }
+
+  return failures;
+}
+
+/** Collects the tasks that failed the run, timeouts included, with their logs and the diagnostics found in them. */
+export function collectFailures(report: RunReport, options: CollectFailuresOptions): Promise<FailedTaskInfo[]> {
+  return collectTasks(report, report.actions.filter(isFailedTask), options);
+}
+
+/** Collects the failed tasks that are allowed to fail, which don't fail the run. */
+export function collectAllowedFailures(report: RunReport, options: CollectFailuresOptions): Promise<FailedTaskInfo[]> {
+  return collectTasks(
+    report,
+    report.actions.filter((action: Action) => categoryOf(action) === "allowed-failure"),
+    options,
+  );
+}
+
+export function collectAbortedTasks(report: RunReport): AbortedTaskInfo[] {
+  return report.actions
+    .filter((action: Action) => categoryOf(action) === "aborted")
+    .map((action: RunTaskAction) => ({ target: action.node.params.target, duration: action.duration ?? null }));
+}
+
+export function collectFlakyTasks(report: RunReport, secretPatterns = DEFAULT_SECRET_PATTERNS): FlakyTaskInfo[] {
+  const secrets = secretsOf(report);
+
+  return report.actions.filter(isFlakyTask).map((action: RunTaskAction) => {
+    let redactions = 0;
+    const attempts = attemptsOf(action).map((attempt) => {
+      const { text, count } = redactSecrets(attempt.stderr, secrets, secretPatterns);
+      redactions += count;
+      return { ...attempt, stderr: text };
+    });
+
+    return { target: action.node.params.target, attempts, redactions };
+  });
+}
@@ -0,0 +1,105 @@
+import { createHash } from "node:crypto";
+
+import type { FailedTaskInfo } from "./failures.js";
+import { stripAnsi } from "./format.js";
+import { DEFAULT_ERROR_PATTERNS, excerptLog } from "./log-excerpt.js";
+
+/** Length of the log excerpt that is fingerprinted, so that long logs differing in unrelated lines still match. */
+const FINGERPRINT_EXCERPT_SIZE = 4000;
+
+/** Variable parts of task output, replaced by a placeholder in the order they are listed. */
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  // ISO 8601 timestamps and times of day, e.g. `2024-07-14T09:03:50.544Z` or `09:03:50`
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?\b/g, "<timestamp>"],
+  [/\b\d{1,2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g, "<timestamp>"],
+  // Directories of absolute POSIX and Windows paths, keeping the name of the file
+  [/(?:\b[A-Za-z]:\\|(?<![\w.~-])\/)(?:[\w.@+-]+[\\/])+/g, "<path>/"],
+  [/\b\d+(?:\.\d+)?\s?(?:ns|µs|us|ms|s|sec|secs|seconds?|m|min|mins|minutes?|h|hours?)\b/g, "<duration>"],
+  // Hex hashes, e.g. commit SHAs or cache hashes, which contain at least one digit unlike most words
+  [/\b(?:0x)?(?=[a-f]*\d)[0-9a-f]{7,}\b/gi, "<hash>"],
+];
+
+/**
+ * Normalizes task output so that the same failure reported by different tasks or runs reads the same: strips ANSI
+ * colours and replaces timestamps, absolute directories, durations and hex hashes with placeholders.
+ */
+export function normalizeFailureText(text: string): string {
+  let normalized = stripAnsi(text);
+  for (const [pattern, placeholder] of VOLATILE_PATTERNS) {
+    normalized = normalized.replace(pattern, placeholder);
+  }
+
+  return normalized
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "")
+    .join("\n");
+}
+
+/**
+ * Fingerprints a failure by its normalized error and an excerpt of its normalized logs, with the target replaced so
+ * that tasks failing the same way share the fingerprint.
+ */
+export function fingerprintOf({
+  target,
+  error,
+  stdout,
+  stderr,
+}: Pick<FailedTaskInfo, "target" | "error" | "stdout" | "stderr">): string {
+  const normalize = (text: string) => normalizeFailureText(text.replaceAll(target, "<target>"));
+  const output = normalize(stderr.trim() || stdout);
+  const excerpt = excerptLog(output, FINGERPRINT_EXCERPT_SIZE, { patterns: DEFAULT_ERROR_PATTERNS, contextLines: 2 });
+
+  return createHash("sha256")
+    .update(`${normalize(error ?? "")}\n\n${excerpt}`)
+    .digest("hex")
+    .slice(0, 12);
+}
+
+/** Failures sharing a fingerprint, shown once on behalf of all of them. */
+export interface FailureGroup {
+  fingerprint: string;
+  /** First failure of the group, whose logs are shown. */
+  failure: FailedTaskInfo;
+  /** Every failure of the group, the first one included. */
+  failures: FailedTaskInfo[];
+}
+
+/**
+ * Groups failures by fingerprint, in the order their first failure was reported. Failures that compare differently to
+ * the baseline are kept apart, so that a new failure isn't hidden behind a pre-existing one.
+ */
+export function groupFailures(failures: FailedTaskInfo[]): FailureGroup[] {
+  const groups = new Map<string, FailureGroup>();
+  for (const failure of failures) {
+    const key = `${failure.fingerprint}:${failure.baseline}`;
+    const group = groups.get(key);
+    if (group) {
+      group.failures.push(failure);
+    } else {
+      groups.set(key, { fingerprint: failure.fingerprint, failure, failures: [failure] });
+    }
+  }
+
+  return [...groups.values()];
+}
+
+/** Targets of the group besides the one whose logs are shown. */
+export function sameFailureOf(group: FailureGroup): string[] {
+  return group.failures.slice(1).map(({ target }) => target);
+}
+
+/** Entry of the `failure-fingerprints` output. */
+export interface FailureFingerprint {
+  fingerprint: string;
+  targets: string[];
+}
+
+export function fingerprintsOf(failures: FailedTaskInfo[]): FailureFingerprint[] {
+  const targets = new Map<string, string[]>();
+  for (const { fingerprint, target } of failures) {
+    targets.set(fingerprint, [...(targets.get(fingerprint) ?? []), target]);
+  }
+
+  return [...targets].map(([fingerprint, targets]) => ({ fingerprint, targets }));
+}
@@ -0,0 +1,36 @@
+import type { Duration } from "@moonrepo/types";
+
+export function stripAnsi(text: string): string {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: intentionally matching ANSI escape sequences
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+export function durationToMillis(duration: Duration | null | undefined): number {
+  return duration ? duration.secs * 1000 + duration.nanos / 1_000_000 : 0;
+}
+
+export function formatDuration(duration: Duration | null | undefined): string {
+  if (!duration) {
+    return "-";
+  }
+
+  // Rounded before picking the unit, so that e.g. 59.96s shows as 1m 0s rather than 60.0s
+  const millis = durationToMillis(duration);
+  if (Math.round(millis) < 1000) {
+    return `${Math.round(millis)}ms`;
+  }
+  if (Math.round(millis / 100) < 600) {
+    return `${(millis / 1000).toFixed(1)}s`;
+  }
+
+  const totalSeconds = Math.round(millis / 1000);
+  return `${Math.floor(totalSeconds / 60)}m ${totalSeconds % 60}s`;
+}
+
+export function millisToDuration(millis: number): Duration {
+  return { secs: Math.floor(millis / 1000), nanos: Math.round((millis % 1000) * 1_000_000) };
+}
+
+export function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
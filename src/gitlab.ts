@@ -0,0 +1,87 @@
+import { log } from "./logger.js";
+import { type ReviewNote, type ReviewPlatform, requestJson, withRateLimitRetries } from "./review-platform.js";
+
+/** Variables GitLab CI sets for the job, only the ones used to post merge request notes. */
+export interface GitLabEnvironment {
+  /** `CI_API_V4_URL`, e.g. `https://gitlab.example.com/api/v4`. */
+  apiUrl: string;
+  /** `CI_PROJECT_ID` */
+  projectId: string;
+  /** `CI_MERGE_REQUEST_IID`, only set in merge request pipelines. */
+  mergeRequestIid: string | null;
+  /** `CI_COMMIT_SHA` */
+  sha: string;
+}
+
+/** Reads the GitLab CI variables, `null` when not running in GitLab CI. */
+export function gitLabEnvironment(env: NodeJS.ProcessEnv = process.env): GitLabEnvironment | null {
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  const apiUrl = env["CI_API_V4_URL"];
+  // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+  const projectId = env["CI_PROJECT_ID"];
+  if (!apiUrl || !projectId) {
+    return null;
+  }
+
+  return {
+    apiUrl: apiUrl.replace(/\/+$/, ""),
+    projectId,
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    mergeRequestIid: env["CI_MERGE_REQUEST_IID"] || null,
+    // biome-ignore lint/complexity/useLiteralKeys: TS strict requires bracket notation for index signatures
+    sha: env["CI_COMMIT_SHA"] ?? "",
+  };
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+  system: boolean;
+}
+
+/** Posts notes on GitLab merge requests through the REST API, with a personal, project or group access token. */
+export function gitLabPlatform(environment: GitLabEnvironment, token: string): ReviewPlatform {
+  const projectUrl = `${environment.apiUrl}/projects/${encodeURIComponent(environment.projectId)}`;
+  const headers = { "PRIVATE-TOKEN": token };
+  const notesUrl = (mergeRequest: number) => `${projectUrl}/merge_requests/${mergeRequest}/notes`;
+
+  return {
+    name: "GitLab",
+
+    async resolveChangeRequest() {
+      if (environment.mergeRequestIid) {
+        return Number(environment.mergeRequestIid);
+      }
+
+      log.debug("No merge request found from CI variables, trying to find merge requests associated with commit");
+      const { data: mergeRequests } = await withRateLimitRetries("finding the merge request", () =>
+        requestJson<Array<{ iid: number }>>(`${projectUrl}/repository/commits/${environment.sha}/merge_requests`, {
+          headers,
+        }),
+      );
+      return mergeRequests[0]?.iid ?? null;
+    },
+
+    async listNotes(mergeRequest) {
+      const notes: ReviewNote[] = [];
+      for (let page: string | null = "1"; page; ) {
+        const response: { data: GitLabNote[]; headers: Headers } = await requestJson<GitLabNote[]>(
+          `${notesUrl(mergeRequest)}?per_page=100&page=${page}&sort=asc&order_by=created_at`,
+          { headers },
+        );
+        notes.push(...response.data.filter((note) => !note.system).map(({ id, body }) => ({ id, body })));
+        page = response.headers.get("x-next-page") || null;
+      }
+      return notes;
+    },
+
+    createNote: (mergeRequest, body) =>
+      requestJson(notesUrl(mergeRequest), { method: "POST", headers, body: { body } }),
+
+    updateNote: (mergeRequest, note, body) =>
+      requestJson(`${notesUrl(mergeRequest)}/${note.id}`, { method: "PUT", headers, body: { body } }),
+
+    deleteNote: (mergeRequest, note) =>
+      requestJson(`${notesUrl(mergeRequest)}/${note.id}`, { method: "DELETE", headers }),
+  };
+}
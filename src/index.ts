@@ -0,0 +1,180 @@
+export {
+  type AggregateResult,
+  type AggregateShardsOptions,
+  aggregateShards,
+  findShardReports,
+  formatShards,
+  type ShardReport,
+} from "./aggregate.js";
+export {
+  BASELINE_STATUS_LABELS,
+  type BaselineStatus,
+  failingTargetsOf,
+  fixedTargetsOf,
+  formatFixedTargets,
+} from "./baseline.js";
+export { type BitbucketEnvironment, bitbucketEnvironment, bitbucketPlatform } from "./bitbucket.js";
+export {
+  type CacheStats,
+  type CacheStatsGroup,
+  computeCacheStats,
+  formatCacheStats,
+  loadLastRunDurations,
+  type TargetCacheStats,
+} from "./cache-stats.js";
+export {
+  buildCheckRuns,
+  type CheckRun,
+  type CheckRunAnnotation,
+  type CheckRunConclusion,
+  type CheckRunGranularity,
+} from "./check-runs.js";
+export { type Diagnostic, type DiagnosticSeverity, extractDiagnostics } from "./diagnostics.js";
+export { formatJUnitReport, formatSarifReport, writeExport } from "./exports.js";
+export {
+  type FailingTarget,
+  type FailureHistoryEntry,
+  type FailureRate,
+  failureRatesOf,
+  formatFailureHistory,
+  formatFailureRates,
+  formatTopFailingTargets,
+  type HistoryBranches,
+  parseFailureHistory,
+  recordRun,
+  topFailingTargets,
+  withFailureRates,
+} from "./failure-history.js";
+export {
+  type AbortedTaskInfo,
+  type CollectFailuresOptions,
+  collectAbortedTasks,
+  collectAllowedFailures,
+  collectFailures,
+  collectFlakyTasks,
+  type FailedTaskInfo,
+  type FlakyTaskInfo,
+} from "./failures.js";
+export {
+  type FailureFingerprint,
+  type FailureGroup,
+  fingerprintOf,
+  fingerprintsOf,
+  groupFailures,
+  normalizeFailureText,
+  sameFailureOf,
+} from "./fingerprint.js";
+export { durationToMillis, formatDuration, formatPercent, millisToDuration, stripAnsi } from "./format.js";
+export { type GitLabEnvironment, gitLabEnvironment, gitLabPlatform } from "./gitlab.js";
+export { DEFAULT_ERROR_PATTERNS, excerptLog, type LogExcerptOptions } from "./log-excerpt.js";
+export { type Logger, setLogger } from "./logger.js";
+export {
+  AGGREGATE_COMMENT_ID,
+  COMMENT_TEMPLATE_VARIABLES,
+  commentTag,
+  commentToken,
+  DEFAULT_COMMENT_TEMPLATE,
+  DEFAULT_SUMMARY_TEMPLATE,
+  enforceCommentSizeLimit,
+  FLAKY_COMMENT_ID,
+  formatAbortedTasks,
+  formatAggregateComment,
+  formatAllowedFailures,
+  formatFlakyComment,
+  formatFlakyTasks,
+  formatRegressionsComment,
+  formatResolvedComment,
+  formatStepSummary,
+  formatTaskComment,
+  formatTimeouts,
+  GITHUB_COMMENT_MAX_SIZE,
+  type MarkdownOptions,
+  type MarkdownTemplates,
+  REGRESSIONS_COMMENT_ID,
+  RESOLVED_MARKER,
+  type RunInfo,
+  SUMMARY_TEMPLATE_VARIABLES,
+  type TaskTemplateContext,
+} from "./markdown.js";
+export { type CacheHit, cacheHitOf, formatRunOverview, taskStatusOf } from "./overview.js";
+export {
+  type CodeOwnersRule,
+  codeOwnersOf,
+  loadCodeOwners,
+  mergeProjectOwners,
+  parseCodeOwners,
+  type ResolveOwnersOptions,
+  resolveProjectOwners,
+} from "./owners.js";
+export {
+  DEFAULT_SECRET_PATTERNS,
+  formatRedactionCount,
+  REDACTED,
+  type Redaction,
+  redactSecrets,
+  secretsOf,
+} from "./redact.js";
+export {
+  type DurationHistory,
+  type DurationRegression,
+  detectRegressions,
+  formatRegressions,
+  type RegressionThresholds,
+  ranTaskDurations,
+  recordDurations,
+} from "./regressions.js";
+export {
+  attemptsOf,
+  categoryOf,
+  commandOf,
+  FAILURE_STATUSES,
+  fileExists,
+  findReportPath,
+  isFailedTask,
+  isFlakyTask,
+  loadProjectNodes,
+  loadProjectSources,
+  PROJECT_GRAPH_CACHE_FILES,
+  type ProjectGraphNode,
+  parseTarget,
+  type ResultCategory,
+  type RunTaskAction,
+  readReport,
+  type TargetIdentity,
+  type TaskAttempt,
+  timeoutOf,
+} from "./report.js";
+export { type Reproduction, reproductionOf } from "./reproduce.js";
+export {
+  type PlannedNote,
+  type ReviewNote,
+  type ReviewPlatform,
+  requestJson,
+  type StaleNoteStrategy,
+  type SyncNotesOptions,
+  syncNotes,
+  withRateLimitRetries,
+} from "./review-platform.js";
+export {
+  type ActionGraph,
+  analyzeRootCauses,
+  type BlockedTask,
+  formatBlockedTasks,
+  formatFailureGraph,
+  loadActionGraph,
+  type RootCauseAnalysis,
+} from "./root-cause.js";
+export {
+  COMMENT_MODES,
+  type CommentMode,
+  collectRunResults,
+  failureComments,
+  formatCategorySections,
+  formatResultSections,
+  loadRunReport,
+  type RunReportFile,
+  type RunResults,
+} from "./run.js";
+export { resolveTaskLogs, type TaskLogSource, type TaskLogs } from "./task-logs.js";
+export { parseTemplate, readTemplate, renderTemplate, type Template, type TemplateVariables } from "./template.js";
+export { formatWebhookPayload, sendWebhook, type WebhookDigest, type WebhookFormat } from "./webhook.js";
@@ -0,0 +1,90 @@
+/** Lines that commonly point at the actual error in the output of compilers, test runners and linters. */
+export const DEFAULT_ERROR_PATTERNS: RegExp[] = [
+  /error TS\d+:/, // TypeScript
+  /^\s*(?:FAIL|●)\s/, // Jest, Vitest
+  /^(?:error|warning)(?:\[E\d+\])?:/, // rustc, cargo
+  /panicked at/, // Rust panics
+  /^\s*\d+:\d+\s+error\s/, // ESLint
+  /^(?:--- FAIL:|panic:)/, // Go
+  /^Traceback \(most recent call last\)/, // Python
+  /^\s*(?:[A-Z]\w*)?(?:Error|Exception)(?::|\s*$)/, // Thrown errors
+  /^\s+at .+:\d+:\d+\)?$/, // Stack traces
+  /\b(?:ERROR|FATAL)\b/,
+];
+
+export interface LogExcerptOptions {
+  patterns: RegExp[];
+  contextLines: number;
+}
+
+function omittedLinesMarker(count: number): string {
+  return `… ${count} line${count === 1 ? "" : "s"} omitted …`;
+}
+
+/** Keeps the head and tail of `output`, preferring the tail as that's where most tools print their summary. */
+function headTailExcerpt(output: string, budget: number): string {
+  const marker = "\n…\n";
+  if (budget <= marker.length) {
+    return `… ${output.slice(-Math.max(budget - 2, 0))}`;
+  }
+
+  const headSize = Math.floor((budget - marker.length) / 4);
+  const tailSize = budget - marker.length - headSize;
+  return `${output.slice(0, headSize)}${marker}${output.slice(-tailSize)}`;
+}
+
+/**
+ * Shortens `output` to at most `budget` characters. Lines that look like errors are kept together with some context
+ * around them, and the omitted parts in between are marked. When no such lines are found, or not even the first
+ * excerpt fits, falls back to keeping the head and tail of the output.
+ */
+export function excerptLog(output: string, budget: number, { patterns, contextLines }: LogExcerptOptions): string {
+  if (output.length <= budget) {
+    return output;
+  }
+
+  const lines = output.split("\n");
+
+  // Merge overlapping or adjacent context windows around each matching line
+  const ranges: Array<{ start: number; end: number }> = [];
+  lines.forEach((line, index) => {
+    if (!patterns.some((pattern) => pattern.test(line))) return;
+
+    const start = Math.max(index - contextLines, 0);
+    const end = Math.min(index + contextLines, lines.length - 1);
+    const previous = ranges.at(-1);
+
+    if (previous && start <= previous.end + 1) {
+      previous.end = Math.max(previous.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  const parts: string[] = [];
+  let length = 0;
+  let cursor = 0;
+
+  for (const { start, end } of ranges) {
+    const gap = start > cursor ? `${omittedLinesMarker(start - cursor)}\n` : "";
+    const excerpt = lines.slice(start, end + 1).join("\n");
+    const trailing = end + 1 < lines.length ? `\n${omittedLinesMarker(lines.length - end - 1)}` : "";
+
+    // Always leave room to mark the rest of the output as omitted
+    if (length + gap.length + excerpt.length + 1 + trailing.length > budget) break;
+
+    parts.push(`${gap}${excerpt}`);
+    length += gap.length + excerpt.length + 1;
+    cursor = end + 1;
+  }
+
+  if (parts.length === 0) {
+    return headTailExcerpt(output, budget);
+  }
+
+  if (cursor < lines.length) {
+    parts.push(omittedLinesMarker(lines.length - cursor));
+  }
+
+  return parts.join("\n");
+}
@@ -0,0 +1,23 @@
+export interface Logger {
+  debug(message: string): void;
+  info(message: string): void;
+  warning(message: string): void;
+}
+
+// Everything goes to stderr, so that messages don't end up in reports printed to stdout
+let current: Logger = {
+  debug: () => {},
+  info: (message) => console.error(message),
+  warning: (message) => console.warn(`Warning: ${message}`),
+};
+
+/** Routes the messages logged by the library, e.g. to `@actions/core` when running as an action. */
+export function setLogger(logger: Logger): void {
+  current = logger;
+}
+
+export const log: Logger = {
+  debug: (message) => current.debug(message),
+  info: (message) => current.info(message),
+  warning: (message) => current.warning(message),
+};
@@ -0,0 +1,714 @@
+import { BASELINE_STATUS_LABELS } from "./baseline.js";
+import { formatFailureRates } from "./failure-history.js";
+import type { AbortedTaskInfo, FailedTaskInfo, FlakyTaskInfo } from "./failures.js";
+import { type FailureGroup, groupFailures, sameFailureOf } from "./fingerprint.js";
+import { durationToMillis, formatDuration, millisToDuration, stripAnsi } from "./format.js";
+import { excerptLog, type LogExcerptOptions } from "./log-excerpt.js";
+import { formatRedactionCount } from "./redact.js";
+import { type DurationRegression, formatRegressions } from "./regressions.js";
+import { FAILURE_STATUSES, parseTarget } from "./report.js";
+import { formatBlockedTasks, formatFailureGraph, type RootCauseAnalysis } from "./root-cause.js";
+import { parseTemplate, renderTemplate, type Template, type TemplateVariables } from "./template.js";
+
+/** Comment ID used in place of a target when all failures are posted as a single comment. */
+export const AGGREGATE_COMMENT_ID = "summary";
+
+/** Comment ID used in place of a target for the comment listing flaky tasks. */
+export const FLAKY_COMMENT_ID = "flaky";
+
+/** Comment ID used in place of a target for the comment listing performance regressions. */
+export const REGRESSIONS_COMMENT_ID = "regressions";
+
+export interface MarkdownTemplates {
+  /** Body of the comment of a failed task, and of its section in a single comment. */
+  comment: Template;
+  /** Failure summary of the step summary. */
+  summary: Template;
+}
+
+/** Workflow run the markdown is rendered for. */
+export interface RunInfo {
+  url: string | null;
+  sha: string | null;
+}
+
+export interface MarkdownOptions {
+  /** Name used to tell comments of different jobs apart, `""` when there is none. */
+  jobGroup: string;
+  excerpt: LogExcerptOptions;
+  /** Templates replacing the built-in layout, which is rendered from the default templates. */
+  templates?: Partial<MarkdownTemplates>;
+  run?: RunInfo;
+}
+
+export function commentTag(jobGroup: string): string {
+  return `moon-ci-booster-${jobGroup || "all"}`;
+}
+
+export function commentToken(jobGroup: string, id: string): string {
+  return `<!-- ${commentTag(jobGroup)}-${id} -->`;
+}
+
+export const GITHUB_COMMENT_MAX_SIZE = 65536;
+const TRUNCATION_NOTICE = "\n\n> **Note:** Output was truncated to fit within GitHub comment size limits.\n";
+
+// --- Templates ---
+
+/** Fields of a failed task available to templates, as markdown. */
+export interface TaskTemplateContext {
+  target: string;
+  project: string;
+  task: string;
+  /** Error of the task, without ANSI colours. */
+  error: string | null;
+  command: string | null;
+  duration: string | null;
+  /** Configured timeout of a task that timed out, e.g. `5m 0s`, `null` for other failures. */
+  timeout: string | null;
+  /** How the failure compares to the baseline report. */
+  baseline: string | null;
+  shard: string | null;
+  /** Owners of the project, as mentions separated by spaces. */
+  owners: string;
+  /** Targets blocked by the task, as a comma separated list. */
+  blocks: string;
+  /** Number of secrets masked in the task's output, e.g. `2 sensitive values`, `null` when there were none. */
+  redactions: string | null;
+  /** Where the logs were found: `report`, `state` or `archive`, `null` when they weren't found. */
+  logSource: string | null;
+  /** `moon run` command reproducing the failure. */
+  reproduce: string;
+  toolchain: string | null;
+  /** Files touched inside the project of the task, as a markdown list. */
+  touchedFiles: string;
+  /** Hash of the normalized error and log excerpt of the task. */
+  fingerprint: string;
+  /** Other targets that failed with the same fingerprint, as a comma separated list. */
+  sameFailure: string;
+  /** How often the target failed in recent runs, e.g. `Failed 3 of the last 10 runs on \`main\`.` */
+  failureRate: string | null;
+}
+
+const TASK_TEMPLATE_FIELDS: readonly (keyof TaskTemplateContext)[] = [
+  "target",
+  "project",
+  "task",
+  "error",
+  "command",
+  "duration",
+  "timeout",
+  "baseline",
+  "shard",
+  "owners",
+  "blocks",
+  "redactions",
+  "logSource",
+  "reproduce",
+  "toolchain",
+  "touchedFiles",
+  "fingerprint",
+  "sameFailure",
+  "failureRate",
+];
+
+const RUN_TEMPLATE_FIELDS = ["jobGroup", "runUrl", "sha"] as const;
+
+function variablesOf(fields: readonly string[]): Record<string, readonly string[]> {
+  return Object.fromEntries(fields.map((field) => [field, []]));
+}
+
+/**
+ * Variables of comment templates: the fields of the task, its `stdout` and `stderr`, their combination as `output`
+ * with an `outputLabel` naming what it contains, the fields of the run, and `standalone`, which is false when the
+ * task is rendered as a section of a single comment. Logs are shortened to fit when the comment gets too large.
+ */
+export const COMMENT_TEMPLATE_VARIABLES: TemplateVariables = variablesOf([
+  ...TASK_TEMPLATE_FIELDS,
+  "stdout",
+  "stderr",
+  "output",
+  "outputLabel",
+  "standalone",
+  ...RUN_TEMPLATE_FIELDS,
+]);
+
+/**
+ * Variables of summary templates: the `failures` with the fields of the first task of each group of tasks that failed
+ * the same way, a `headline` with the number of failures, the failure `table`, the list of `blocked` tasks and their
+ * `graph`, and the fields of the run.
+ */
+export const SUMMARY_TEMPLATE_VARIABLES: TemplateVariables = {
+  ...variablesOf([
+    "headline",
+    "count",
+    "distinctCount",
+    "blockedCount",
+    "table",
+    "blocked",
+    "graph",
+    "redactions",
+    ...RUN_TEMPLATE_FIELDS,
+  ]),
+  failures: TASK_TEMPLATE_FIELDS,
+};
+
+export const DEFAULT_COMMENT_TEMPLATE = parseTemplate(
+  [
+    "{{#standalone}}",
+    "## :x: `{{#jobGroup}}{{jobGroup}}: {{/jobGroup}}{{target}}`{{#baseline}} ({{baseline}}){{/baseline}}",
+    "{{/standalone}}",
+    "{{#error}}",
+    "",
+    "**Error:** {{error}}",
+    "{{/error}}",
+    "{{#timeout}}",
+    "",
+    ":hourglass: **Timed out** after {{duration}}, the timeout is {{timeout}}.",
+    "{{/timeout}}",
+    "{{#sameFailure}}",
+    "",
+    "**Same failure in:** {{sameFailure}}",
+    "{{/sameFailure}}",
+    "{{#failureRate}}",
+    "",
+    "**History:** {{failureRate}}",
+    "{{/failureRate}}",
+    "{{#shard}}",
+    "",
+    "**Shard:** `{{shard}}`",
+    "{{/shard}}",
+    "{{#owners}}",
+    "",
+    "**Owners:** {{owners}}",
+    "{{/owners}}",
+    "{{#command}}",
+    "",
+    "**Command:** `{{command}}`",
+    "{{/command}}",
+    "{{#blocks}}",
+    "",
+    "**Blocks:** {{blocks}}",
+    "{{/blocks}}",
+    "{{#redactions}}",
+    "",
+    ":lock: Redacted {{redactions}} from the output.",
+    "{{/redactions}}",
+    "{{^logSource}}",
+    "",
+    "_No logs were found for this task in the run report or moon's cache._",
+    "{{/logSource}}",
+    "{{#output}}",
+    "<details><summary><strong>{{outputLabel}}</strong></summary>",
+    "",
+    "```",
+    "{{output}}",
+    "```",
+    "",
+    "</details>",
+    "{{/output}}",
+    "<details><summary><strong>Reproduce locally</strong></summary>",
+    "",
+    "```sh",
+    "{{reproduce}}",
+    "```",
+    "{{#toolchain}}",
+    "",
+    "**Toolchain:** {{toolchain}}",
+    "{{/toolchain}}",
+    "{{#touchedFiles}}",
+    "",
+    "**Touched files in the project:**",
+    "",
+    "{{touchedFiles}}",
+    "{{/touchedFiles}}",
+    "",
+    "</details>",
+    "",
+  ].join("\n"),
+  "comment",
+  COMMENT_TEMPLATE_VARIABLES,
+);
+
+export const DEFAULT_SUMMARY_TEMPLATE = parseTemplate(
+  [
+    "## :x: Moon CI Failure Summary",
+    "",
+    "{{headline}}",
+    "",
+    "{{table}}",
+    "{{#redactions}}",
+    "",
+    ":lock: Redacted {{redactions}} from the output of the failed tasks.",
+    "{{/redactions}}",
+    "{{#blocked}}",
+    "",
+    "### :no_entry_sign: Blocked",
+    "",
+    "{{blocked}}",
+    "{{/blocked}}",
+    "{{#graph}}",
+    "",
+    "{{graph}}",
+    "{{/graph}}",
+    "",
+  ].join("\n"),
+  "summary",
+  SUMMARY_TEMPLATE_VARIABLES,
+);
+
+function formatTimeout(seconds: number | null): string {
+  return seconds === null ? "unknown" : formatDuration(millisToDuration(seconds * 1000));
+}
+
+function taskContextOf(failure: FailedTaskInfo, sameFailure: string[] = []): TaskTemplateContext {
+  const { project, task } = parseTarget(failure.target);
+
+  return {
+    target: failure.target,
+    project,
+    task,
+    error: failure.error ? stripAnsi(failure.error) : null,
+    command: failure.command,
+    duration: failure.duration ? formatDuration(failure.duration) : null,
+    timeout: failure.category === "timeout" ? formatTimeout(failure.timeout) : null,
+    baseline: failure.baseline ? BASELINE_STATUS_LABELS[failure.baseline] : null,
+    shard: failure.shard,
+    owners: failure.owners.join(" "),
+    blocks: failure.blocks.map((target) => `\`${target}\``).join(", "),
+    redactions: failure.redactions > 0 ? formatRedactionCount(failure.redactions) : null,
+    logSource: failure.logSource,
+    reproduce: failure.reproduction.command,
+    toolchain: failure.reproduction.toolchain,
+    touchedFiles: failure.reproduction.touchedFiles.map((file) => `- \`${file}\``).join("\n"),
+    fingerprint: failure.fingerprint,
+    sameFailure: sameFailure.map((target) => `\`${target}\``).join(", "),
+    failureRate: formatFailureRates(failure.failureRates),
+  };
+}
+
+function runContextOf({ jobGroup, run }: Pick<MarkdownOptions, "jobGroup" | "run">) {
+  return { jobGroup, runUrl: run?.url ?? null, sha: run?.sha ?? null };
+}
+
+// --- Task comments ---
+
+interface TaskCommentOptions {
+  /** Upper bound for the length of the rendered markdown, logs are truncated to fit. */
+  maxSize?: number;
+  /** Whether to render the comment token and heading, i.e. when the markdown is posted on its own. */
+  standalone?: boolean;
+  /** Other targets that failed the same way, shown in this comment instead of their own. */
+  sameFailure?: string[];
+}
+
+interface TaskLogs {
+  stdout: string;
+  stderr: string;
+  output: string;
+}
+
+/** Renders the comment of a failure with the given logs, along with the logs of the failure. */
+function taskCommentRendererOf(
+  failure: FailedTaskInfo,
+  options: MarkdownOptions,
+  { standalone = true, sameFailure = [] }: Omit<TaskCommentOptions, "maxSize">,
+): { logs: TaskLogs; render: (renderedLogs: TaskLogs) => string } {
+  const template = options.templates?.comment ?? DEFAULT_COMMENT_TEMPLATE;
+  const stderr = stripAnsi(failure.stderr.trim());
+  const stdout = stripAnsi(failure.stdout.trim());
+
+  // Prefer stderr; fall back to stdout when stderr is empty
+  const outputLabel = stderr && stdout ? "stderr + stdout" : stderr ? "stderr" : stdout ? "stdout" : "none";
+  const logs: TaskLogs = { stdout, stderr, output: stderr && stdout ? `${stderr}\n${stdout}` : stderr || stdout };
+
+  const render = (renderedLogs: TaskLogs) => {
+    const body = renderTemplate(template, {
+      ...taskContextOf(failure, sameFailure),
+      ...renderedLogs,
+      outputLabel,
+      standalone,
+      ...runContextOf(options),
+    });
+    return standalone ? `${commentToken(options.jobGroup, failure.target)}\n\n${body}` : body.replace(/^\n+/, "");
+  };
+
+  return { logs, render };
+}
+
+const NO_LOGS: TaskLogs = { stdout: "", stderr: "", output: "" };
+
+/** Length of the comment of a failure with its logs left out, which is as short as it gets without cutting it off. */
+function taskCommentLayoutSize(
+  failure: FailedTaskInfo,
+  options: MarkdownOptions,
+  commentOptions: Omit<TaskCommentOptions, "maxSize"> = {},
+): number {
+  return taskCommentRendererOf(failure, options, commentOptions).render(NO_LOGS).length + TRUNCATION_NOTICE.length;
+}
+
+export function formatTaskComment(
+  failure: FailedTaskInfo,
+  options: MarkdownOptions,
+  { maxSize = GITHUB_COMMENT_MAX_SIZE, ...commentOptions }: TaskCommentOptions = {},
+): string {
+  const { logs, render } = taskCommentRendererOf(failure, options, commentOptions);
+  const { stdout, stderr } = logs;
+
+  const markdown = render(logs);
+  if (markdown.length <= maxSize) {
+    return markdown;
+  }
+
+  // Measure the markdown around the logs by rendering a single character in place of each of them
+  const placeholder = "\u0000";
+  const layout = render({
+    stdout: stdout && placeholder,
+    stderr: stderr && placeholder,
+    output: logs.output && placeholder,
+  });
+  const occurrences = layout.split(placeholder).length - 1;
+  const budget = Math.floor(
+    (maxSize - (layout.length - occurrences) - TRUNCATION_NOTICE.length) / Math.max(occurrences, 1),
+  );
+  if (budget <= 2) {
+    // Not even a single character of output fits, leave the logs out entirely, and cut off the rest if need be
+    return enforceCommentSizeLimit(`${render(NO_LOGS)}${TRUNCATION_NOTICE}`, maxSize);
+  }
+
+  const shorten = (log: string) => (log.length > budget ? excerptLog(log, budget, options.excerpt) : log);
+  return `${render({ stdout: shorten(stdout), stderr: shorten(stderr), output: shorten(logs.output) })}${TRUNCATION_NOTICE}`;
+}
+
+/**
+ * Table with a row per group of failures, listing every target of the group. Groups past `maxRows` are counted in a
+ * last row instead.
+ */
+function formatFailureTable(groups: FailureGroup[], maxRows = groups.length): string[] {
+  const failures = groups.flatMap((group) => group.failures);
+  // Only show shards and compare against the baseline when there are any
+  const showShard = failures.some((failure) => failure.shard !== null);
+  const showBaseline = failures.some((failure) => failure.baseline !== null);
+
+  const headers = ["Target", ...(showShard ? ["Shard"] : []), "Error", ...(showBaseline ? ["Baseline"] : [])];
+  const lines: string[] = [`| ${headers.join(" | ")} |`, `| ${headers.map(() => "---").join(" | ")} |`];
+
+  for (const { failure, failures } of groups.slice(0, maxRows)) {
+    const shards = new Set(failures.flatMap(({ shard }) => (shard ? [`\`${shard}\``] : [])));
+    const baselines = new Set(failures.flatMap(({ baseline }) => (baseline ? [BASELINE_STATUS_LABELS[baseline]] : [])));
+    const cells = [
+      failures.map(({ target }) => `\`${target}\``).join("<br>"),
+      ...(showShard ? [[...shards].join("<br>")] : []),
+      failure.error ? stripAnsi(failure.error) : "",
+      ...(showBaseline ? [[...baselines].join(", ")] : []),
+    ];
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+  if (groups.length > maxRows) {
+    const cells = [`…and ${groups.length - maxRows} more`, ...headers.slice(1).map(() => "")];
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+
+  return lines;
+}
+
+function formatFailureCount(groups: FailureGroup[], rootCauses: RootCauseAnalysis | null): string {
+  const failed = groups.reduce((total, group) => total + group.failures.length, 0);
+  const blocked = rootCauses?.blocked.length ?? 0;
+  const distinct =
+    groups.length < failed ? ` with ${groups.length} distinct error${groups.length === 1 ? "" : "s"}` : "";
+  return `**${failed} task${failed === 1 ? "" : "s"} failed**${distinct}${blocked > 0 ? `, blocking ${blocked} other${blocked === 1 ? "" : "s"}` : ""}`;
+}
+
+function formatBlockedSection(rootCauses: RootCauseAnalysis | null): string[] {
+  if (!rootCauses || rootCauses.blocked.length === 0) {
+    return [];
+  }
+  return ["", "### :no_entry_sign: Blocked", "", ...formatBlockedTasks(rootCauses.blocked)];
+}
+
+/** Failures that aren't only blocked by other failures, the ones worth showing logs for. */
+function rootFailuresOf(failures: FailedTaskInfo[]): FailedTaskInfo[] {
+  return failures.filter((failure) => failure.blockedBy.length === 0);
+}
+
+export function formatStepSummary(
+  failures: FailedTaskInfo[],
+  rootCauses: RootCauseAnalysis | null = null,
+  options: Pick<MarkdownOptions, "jobGroup" | "templates" | "run"> = { jobGroup: "" },
+): string {
+  const rootFailures = rootFailuresOf(failures);
+  const groups = groupFailures(rootFailures);
+  const blocked = rootCauses?.blocked ?? [];
+  const redactions = failures.reduce((total, failure) => total + failure.redactions, 0);
+
+  return renderTemplate(options.templates?.summary ?? DEFAULT_SUMMARY_TEMPLATE, {
+    headline: formatFailureCount(groups, rootCauses),
+    count: rootFailures.length,
+    distinctCount: groups.length,
+    blockedCount: blocked.length,
+    table: formatFailureTable(groups).join("\n"),
+    blocked: formatBlockedTasks(blocked).join("\n"),
+    graph: rootCauses && blocked.length > 0 ? formatFailureGraph(rootCauses) : "",
+    redactions: redactions > 0 ? formatRedactionCount(redactions) : null,
+    failures: groups.map((group) => taskContextOf(group.failure, sameFailureOf(group))),
+    ...runContextOf(options),
+  });
+}
+
+/** Maximum length of the stderr shown for each failed attempt of a flaky task. */
+const FLAKY_STDERR_MAX_SIZE = 4000;
+
+export function formatFlakyTasks(flakyTasks: FlakyTaskInfo[], excerpt: LogExcerptOptions): string {
+  const lines: string[] = [
+    "## :warning: Flaky Tasks",
+    "",
+    `**${flakyTasks.length} task${flakyTasks.length === 1 ? "" : "s"} passed after retrying or ${flakyTasks.length === 1 ? "was" : "were"} marked as flaky**`,
+    "",
+  ];
+
+  const redactions = flakyTasks.reduce((total, task) => total + task.redactions, 0);
+  if (redactions > 0) {
+    lines.push(`:lock: Redacted ${formatRedactionCount(redactions)} from the output of the attempts.`, "");
+  }
+
+  lines.push("| Target | Attempts | Duration per attempt |", "| --- | --- | --- |");
+
+  for (const { target, attempts } of flakyTasks) {
+    const durations = attempts
+      .map(
+        ({ status, duration }) =>
+          `${FAILURE_STATUSES.has(status) ? ":x:" : ":white_check_mark:"} ${formatDuration(duration)}`,
+      )
+      .join(", ");
+    lines.push(`| \`${target}\` | ${attempts.length} | ${durations || "-"} |`);
+  }
+
+  lines.push("");
+
+  for (const { target, attempts } of flakyTasks) {
+    attempts.forEach(({ status, duration, stderr }, index) => {
+      const stderrTrimmed = stripAnsi(stderr).trim();
+      if (!FAILURE_STATUSES.has(status) || stderrTrimmed === "") return;
+
+      lines.push(
+        `<details><summary><strong><code>${target}</code> attempt ${index + 1} (${formatDuration(duration)})</strong></summary>`,
+        "",
+        "```",
+        excerptLog(stderrTrimmed, FLAKY_STDERR_MAX_SIZE, excerpt),
+        "```",
+        "",
+        "</details>",
+        "",
+      );
+    });
+  }
+
+  return lines.join("\n");
+}
+
+/** Maximum length of the log excerpt shown for each allowed failure. */
+const ALLOWED_FAILURE_LOG_MAX_SIZE = 4000;
+
+export function formatAllowedFailures(failures: FailedTaskInfo[], excerpt: LogExcerptOptions): string {
+  const lines: string[] = [
+    "## :warning: Allowed Failures",
+    "",
+    `**${failures.length} task${failures.length === 1 ? "" : "s"} failed but ${failures.length === 1 ? "is" : "are"} allowed to fail**`,
+    "",
+  ];
+
+  for (const failure of failures) {
+    const output = stripAnsi(failure.stderr.trim() || failure.stdout.trim());
+    lines.push(
+      `<details><summary><strong><code>${failure.target}</code> (${formatDuration(failure.duration)})</strong></summary>`,
+      "",
+      ...(failure.error ? [`**Error:** ${stripAnsi(failure.error)}`, ""] : []),
+      ...(output ? ["```", excerptLog(output, ALLOWED_FAILURE_LOG_MAX_SIZE, excerpt), "```", ""] : []),
+      "</details>",
+      "",
+    );
+  }
+
+  return lines.join("\n");
+}
+
+export function formatTimeouts(failures: FailedTaskInfo[]): string {
+  const lines: string[] = [
+    "## :hourglass: Timeouts",
+    "",
+    `**${failures.length} task${failures.length === 1 ? "" : "s"} ran longer than ${failures.length === 1 ? "its" : "their"} timeout**`,
+    "",
+    "| Target | Timeout | Duration |",
+    "| --- | --- | --- |",
+  ];
+
+  for (const { target, timeout, duration } of failures) {
+    lines.push(`| \`${target}\` | ${formatTimeout(timeout)} | ${formatDuration(duration)} |`);
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+export function formatAbortedTasks(tasks: AbortedTaskInfo[]): string {
+  const lines: string[] = [
+    "## :stop_sign: Aborted",
+    "",
+    `**${tasks.length} task${tasks.length === 1 ? " was" : "s were"} aborted** before ${tasks.length === 1 ? "it" : "they"} finished`,
+    "",
+  ];
+
+  for (const { target, duration } of tasks) {
+    lines.push(`- \`${target}\`${durationToMillis(duration) > 0 ? ` after ${formatDuration(duration)}` : ""}`);
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+export function formatFlakyComment(flakyTasks: FlakyTaskInfo[], { jobGroup, excerpt }: MarkdownOptions): string {
+  return `${commentToken(jobGroup, FLAKY_COMMENT_ID)}\n\n${formatFlakyTasks(flakyTasks, excerpt)}`;
+}
+
+export function formatRegressionsComment(regressions: DurationRegression[], { jobGroup }: MarkdownOptions): string {
+  return `${commentToken(jobGroup, REGRESSIONS_COMMENT_ID)}\n\n${formatRegressions(regressions)}`;
+}
+
+/**
+ * Splits `budget` between entries of the given sizes, so that small entries keep everything they need and the
+ * remainder is shared evenly between the larger ones.
+ */
+function allocateFairly(sizes: number[], budget: number): number[] {
+  const allocations = sizes.map(() => 0);
+  const order = sizes.map((_, index) => index).sort((a, b) => (sizes[a] ?? 0) - (sizes[b] ?? 0));
+
+  let remaining = Math.max(budget, 0);
+  order.forEach((index, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    const allocation = Math.min(sizes[index] ?? 0, share);
+    allocations[index] = allocation;
+    remaining -= allocation;
+  });
+
+  return allocations;
+}
+
+interface TaskSectionsOptions {
+  /** Upper bound for the length of the sections and the note about the ones left out together. */
+  budget: number;
+  /** Wraps the comment of a group into its section, e.g. under a heading. */
+  section: (group: FailureGroup, body: string, index: number) => string;
+  /** Note about the given number of groups left out, empty when there are none. */
+  omittedNote: (count: number) => string;
+}
+
+/**
+ * Sections with the comment of each group, fitted in the budget. The markdown around the logs is never shortened:
+ * when even that doesn't fit, sections are left out from the end. The logs of the others are shortened by a fair share
+ * instead of cutting off the groups at the end.
+ */
+export function formatTaskSections(
+  groups: FailureGroup[],
+  options: MarkdownOptions,
+  { budget, section, omittedNote }: TaskSectionsOptions,
+): string {
+  const format = (group: FailureGroup, maxSize: number) =>
+    formatTaskComment(group.failure, options, { maxSize, standalone: false, sameFailure: sameFailureOf(group) });
+  const sizes = groups.map((group) => format(group, Number.POSITIVE_INFINITY).length);
+  // What each section takes up without its logs, which no allocation can shrink
+  const layouts = groups.map((group) =>
+    taskCommentLayoutSize(group.failure, options, { standalone: false, sameFailure: sameFailureOf(group) }),
+  );
+  const sectionSizes = groups.map((group, index) => section(group, "", index).length + (layouts[index] ?? 0));
+
+  let shown = groups.length;
+  let fixedSize = sectionSizes.reduce((total, size) => total + size, 0);
+  while (shown > 0 && fixedSize + omittedNote(groups.length - shown).length > budget) {
+    shown--;
+    fixedSize -= sectionSizes[shown] ?? 0;
+  }
+
+  const logSizes = layouts.slice(0, shown).map((layout, index) => Math.max((sizes[index] ?? 0) - layout, 0));
+  const allocations = allocateFairly(logSizes, budget - fixedSize - omittedNote(groups.length - shown).length);
+
+  const sections = groups
+    .slice(0, shown)
+    .map((group, index) => section(group, format(group, (layouts[index] ?? 0) + (allocations[index] ?? 0)), index));
+  return `${sections.join("")}${omittedNote(groups.length - shown)}`;
+}
+
+export function formatAggregateComment(
+  allFailures: FailedTaskInfo[],
+  options: MarkdownOptions,
+  rootCauses: RootCauseAnalysis | null = null,
+): string {
+  const { jobGroup } = options;
+  const groups = groupFailures(rootFailuresOf(allFailures));
+  const title = jobGroup ? `Moon CI Failures in \`${jobGroup}\`` : "Moon CI Failures";
+
+  const header = (tableRows: number) =>
+    [
+      commentToken(jobGroup, AGGREGATE_COMMENT_ID),
+      "",
+      `## :x: ${title}`,
+      "",
+      formatFailureCount(groups, rootCauses),
+      "",
+      ...formatFailureTable(groups, tableRows),
+      ...formatBlockedSection(rootCauses),
+      "",
+    ].join("\n");
+  const omittedNote = (count: number) =>
+    count > 0
+      ? `\n_The logs of ${count} more failure${count === 1 ? " are" : "s are"} left out to fit the comment size limit._\n`
+      : "";
+
+  // The table only loses rows when it doesn't fit on its own, otherwise sections are left out from the end
+  let tableRows = groups.length;
+  let fixed = header(tableRows);
+  while (tableRows > 0 && fixed.length + omittedNote(groups.length).length > GITHUB_COMMENT_MAX_SIZE) {
+    tableRows--;
+    fixed = header(tableRows);
+  }
+
+  const sections = formatTaskSections(groups, options, {
+    budget: GITHUB_COMMENT_MAX_SIZE - fixed.length,
+    section: ({ failure, failures }, body) => {
+      const more = failures.length > 1 ? ` (+${failures.length - 1} more)` : "";
+      return `\n<details><summary><strong><code>${failure.target}</code>${more}</strong></summary>\n\n${body}\n</details>\n`;
+    },
+    omittedNote,
+  });
+  return `${fixed}${sections}`;
+}
+
+/** Marks comments collapsed by {@link formatResolvedComment}, so they aren't collapsed again on every run. */
+export const RESOLVED_MARKER = "<!-- moon-ci-booster-resolved -->";
+
+/**
+ * Collapses the comment of a target that passes again into a note, keeping its token so the comment is reused if the
+ * target fails again.
+ */
+export function formatResolvedComment(jobGroup: string, id: string, previousBody: string, sha: string): string {
+  const token = commentToken(jobGroup, id);
+  const header = [token, RESOLVED_MARKER, "", `<details><summary>:white_check_mark: Fixed in ${sha}</summary>`, "", ""];
+  const footer = "\n\n</details>\n";
+
+  let previous = previousBody.replace(token, "").trim();
+  const budget = GITHUB_COMMENT_MAX_SIZE - header.join("\n").length - footer.length;
+  if (previous.length > budget) {
+    previous = previous.slice(0, budget - TRUNCATION_NOTICE.length) + TRUNCATION_NOTICE;
+  }
+
+  return `${header.join("\n")}${previous}${footer}`;
+}
+
+export function enforceCommentSizeLimit(markdown: string, maxSize = GITHUB_COMMENT_MAX_SIZE): string {
+  if (markdown.length <= maxSize) {
+    return markdown;
+  }
+  if (maxSize < TRUNCATION_NOTICE.length) {
+    return markdown.slice(0, maxSize);
+  }
+  return markdown.slice(0, maxSize - TRUNCATION_NOTICE.length) + TRUNCATION_NOTICE;
+}
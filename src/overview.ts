@@ -0,0 +1,98 @@
+import type { Action, ActionStatus, Operation, RunReport } from "@moonrepo/types";
+
+import { durationToMillis, formatDuration } from "./format.js";
+import { FAILURE_STATUSES, type RunTaskAction } from "./report.js";
+
+const STATUS_EMOJIS: Partial<Record<ActionStatus, string>> = {
+  passed: ":white_check_mark:",
+  failed: ":x:",
+  "failed-and-abort": ":x:",
+  skipped: ":fast_forward:",
+  aborted: ":stop_sign:",
+  "timed-out": ":hourglass:",
+  invalid: ":warning:",
+  running: ":hourglass_flowing_sand:",
+};
+
+export type CacheHit = "local" | "remote";
+
+export function cacheHitOf(action: Action): CacheHit | null {
+  if (action.status === "cached-from-remote") return "remote";
+  if (action.status === "cached") return "local";
+
+  // Outputs hydrated from the cache without executing the task
+  const hydration = action.operations.find((operation: Operation) => operation.meta.type === "output-hydration");
+  const executed = action.operations.some((operation: Operation) => operation.meta.type === "task-execution");
+  if (hydration && !executed && !FAILURE_STATUSES.has(hydration.status)) {
+    return hydration.status === "cached-from-remote" ? "remote" : "local";
+  }
+
+  return null;
+}
+
+/** Status of the task itself, a task restored from the cache has passed. */
+export function taskStatusOf(action: Action): ActionStatus {
+  return cacheHitOf(action) ? "passed" : action.status;
+}
+
+export function formatStatus(status: ActionStatus): string {
+  return `${STATUS_EMOJIS[status] ?? ":grey_question:"} ${status}`;
+}
+
+function formatCacheHit(action: Action): string {
+  const cacheHit = cacheHitOf(action);
+  if (cacheHit) return `:zap: ${cacheHit}`;
+  return action.status === "skipped" ? "-" : "miss";
+}
+
+export function formatRunOverview(report: RunReport, slowestCount: number): string {
+  const tasks = report.actions.filter((action: Action) => action.node.action === "run-task") as RunTaskAction[];
+
+  const statusCounts = new Map<ActionStatus, number>();
+  for (const action of tasks) {
+    const status = taskStatusOf(action);
+    statusCounts.set(status, (statusCounts.get(status) ?? 0) + 1);
+  }
+  const cacheHits = tasks.filter((action) => cacheHitOf(action) !== null).length;
+
+  const lines: string[] = [
+    "## :bar_chart: Moon CI Run Overview",
+    "",
+    `**${tasks.length} task${tasks.length === 1 ? "" : "s"} in ${formatDuration(report.duration)}**, ${cacheHits} from cache`,
+    "",
+    "| Status | Tasks |",
+    "| --- | --- |",
+  ];
+
+  for (const [status, count] of statusCounts) {
+    lines.push(`| ${formatStatus(status)} | ${count} |`);
+  }
+
+  const slowest = tasks
+    .filter((action) => cacheHitOf(action) === null && action.duration)
+    .sort((a, b) => durationToMillis(b.duration) - durationToMillis(a.duration))
+    .slice(0, slowestCount);
+
+  if (slowest.length > 0) {
+    lines.push("", "### Slowest tasks", "", "| Target | Duration |", "| --- | --- |");
+    for (const action of slowest) {
+      lines.push(`| \`${action.node.params.target}\` | ${formatDuration(action.duration)} |`);
+    }
+  }
+
+  lines.push(
+    "",
+    "<details><summary><strong>All tasks</strong></summary>",
+    "",
+    "| Target | Status | Cache | Duration |",
+    "| --- | --- | --- | --- |",
+  );
+  for (const action of tasks) {
+    lines.push(
+      `| \`${action.node.params.target}\` | ${formatStatus(taskStatusOf(action))} | ${formatCacheHit(action)} | ${formatDuration(action.duration)} |`,
+    );
+  }
+  lines.push("", "</details>", "");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,145 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { log } from "./logger.js";
+import { fileExists, loadProjectNodes, type ProjectGraphNode } from "./report.js";
+
+export interface CodeOwnersRule {
+  pattern: string;
+  owners: string[];
+}
+
+/** Locations GitHub reads the CODEOWNERS file from, in order of precedence. */
+const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  return content
+    .split("\n")
+    .map((line) => line.replace(/(^|\s)#.*$/, "").trim())
+    .filter((line) => line !== "")
+    .map((line) => {
+      const [pattern = "", ...owners] = line.split(/\s+/);
+      // Owners can also be emails, which can't be mentioned
+      return { pattern, owners: owners.filter((owner) => owner.startsWith("@")) };
+    });
+}
+
+export async function loadCodeOwners(repositoryRoot: string): Promise<CodeOwnersRule[]> {
+  for (const codeOwnersPath of CODEOWNERS_PATHS) {
+    const filePath = path.join(repositoryRoot, codeOwnersPath);
+    if (await fileExists(filePath)) {
+      log.debug(`Using code owners from ${filePath}`);
+      return parseCodeOwners(await readFile(filePath, { encoding: "utf8" }));
+    }
+  }
+
+  return [];
+}
+
+/** Translates a CODEOWNERS pattern, which follows the gitignore syntax, into a regular expression. */
+function patternToRegExp(pattern: string): RegExp {
+  // Patterns with a slash anywhere but at the end are relative to the root, others match at any depth
+  const anchored = pattern.replace(/\/$/, "").includes("/");
+  const segments = pattern.replace(/^\//, "").replace(/\/$/, "").split("/");
+
+  let source = "";
+  for (const [index, segment] of segments.entries()) {
+    const last = index === segments.length - 1;
+    if (segment === "**") {
+      source += last ? ".*" : "(?:.*/)?";
+      continue;
+    }
+
+    source += segment
+      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      .replaceAll("*", "[^/]*")
+      .replaceAll("?", "[^/]");
+    if (!last) source += "/";
+  }
+
+  // A pattern matching a directory also matches everything inside it
+  return new RegExp(`${anchored ? "^" : "(?:^|/)"}${source}(?:/|$)`);
+}
+
+/** Owners of a directory relative to the repository root, from the last rule that matches it like GitHub does. */
+export function codeOwnersOf(rules: CodeOwnersRule[], directory: string): string[] {
+  const normalized = directory
+    .split(path.sep)
+    .join("/")
+    .replace(/^\.\/?/, "");
+  const rule = rules.findLast(({ pattern }) => patternToRegExp(pattern).test(normalized));
+  return rule?.owners ?? [];
+}
+
+/** Reads `owners.defaultOwner` from a `moon.yml`, without pulling in a YAML parser for a single field. */
+async function readDefaultOwner(configPath: string): Promise<string | null> {
+  if (!(await fileExists(configPath))) return null;
+
+  const lines = (await readFile(configPath, { encoding: "utf8" })).split("\n");
+  const start = lines.findIndex((line) => /^owners:\s*$/.test(line));
+  if (start < 0) return null;
+
+  for (const line of lines.slice(start + 1)) {
+    if (/^\S/.test(line)) break;
+
+    const match = line.match(/^\s+defaultOwner:\s*['"]?([^'"\s#]+)/);
+    if (match) return match[1] ?? null;
+  }
+
+  return null;
+}
+
+/** Owners from the `owners` setting of a project, the default owner and the owners of its paths. */
+function moonOwnersOf(node: ProjectGraphNode): string[] {
+  const owners = node.config?.owners;
+  const pathOwners = owners?.paths && !Array.isArray(owners.paths) ? Object.values(owners.paths).flat() : [];
+  return [...(owners?.defaultOwner ? [owners.defaultOwner] : []), ...pathOwners];
+}
+
+export interface ResolveOwnersOptions {
+  /** Root of the moon workspace whose cache lists the projects. */
+  cacheRoot: string;
+  /** Root of the moon workspace in the checked out repository. */
+  workspaceRoot: string;
+  repositoryRoot: string;
+}
+
+/**
+ * Resolves the owners of every project, from the `owners` setting of the project in moon's cache or its `moon.yml`,
+ * and from the CODEOWNERS rules matching its source directory.
+ */
+export async function resolveProjectOwners({
+  cacheRoot,
+  workspaceRoot,
+  repositoryRoot,
+}: ResolveOwnersOptions): Promise<Map<string, string[]>> {
+  const rules = await loadCodeOwners(repositoryRoot);
+  const projectOwners = new Map<string, string[]>();
+
+  for (const node of await loadProjectNodes(cacheRoot)) {
+    const source = path.join(workspaceRoot, node.source as string);
+    const moonOwners = moonOwnersOf(node);
+    const defaultOwner = moonOwners.length === 0 ? await readDefaultOwner(path.join(source, "moon.yml")) : null;
+    const owners = [
+      ...moonOwners,
+      ...(defaultOwner ? [defaultOwner] : []),
+      ...codeOwnersOf(rules, path.relative(repositoryRoot, source)),
+    ];
+
+    projectOwners.set(node.id as string, [...new Set(owners)]);
+  }
+
+  return projectOwners;
+}
+
+/** Merges the owners resolved from the caches of several shards, `null` when none were resolved. */
+export function mergeProjectOwners(maps: (Map<string, string[]> | null)[]): Map<string, string[]> | null {
+  const resolved = maps.filter((owners) => owners !== null);
+  if (resolved.length === 0) return null;
+
+  const merged = new Map<string, string[]>();
+  for (const [project, owners] of resolved.flatMap((owners) => [...owners])) {
+    merged.set(project, [...new Set([...(merged.get(project) ?? []), ...owners])]);
+  }
+  return merged;
+}
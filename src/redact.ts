@@ -0,0 +1,63 @@
+import type { Action, RunReport } from "@moonrepo/types";
+
+/** Shapes of tokens and keys that are masked in all output, wherever they come from. */
+export const DEFAULT_SECRET_PATTERNS: RegExp[] = [
+  /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,}\b/, // GitHub tokens
+  /\bgithub_pat_\w{22,}/, // GitHub fine-grained tokens
+  /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/, // AWS access key IDs
+  /(?<=aws_secret_access_key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/i, // AWS secret access keys
+  /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/, // JWTs
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/, // Private keys
+  /(?<=\b[a-z][\w+.-]*:\/\/[^\s:@/]+:)[^\s@/]+(?=@)/i, // Passwords in URLs
+];
+
+/** Text secrets are replaced with, the same as GitHub Actions uses for masked values. */
+export const REDACTED = "***";
+
+/** Shorter environment variable values, e.g. `true` or `1`, would mask unrelated output. */
+const MIN_SECRET_LENGTH = 6;
+
+export interface Redaction {
+  text: string;
+  /** Number of secrets that were masked. */
+  count: number;
+}
+
+/** Values of the environment variables of every task in the report, which commonly hold tokens. */
+export function secretsOf(report: RunReport): string[] {
+  const values = report.actions.flatMap((action: Action) =>
+    action.node.action === "run-task" ? Object.values(action.node.params.env ?? {}) : [],
+  );
+
+  // Longest first, so a value containing another one is masked as a whole
+  return [...new Set(values)]
+    .filter((value): value is string => typeof value === "string" && value.trim().length >= MIN_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length);
+}
+
+/** Masks the given secret values, and the matches of `patterns`, in `text`. */
+export function redactSecrets(text: string, secrets: string[], patterns: RegExp[]): Redaction {
+  let count = 0;
+  let redacted = text;
+
+  for (const secret of secrets) {
+    const parts = redacted.split(secret);
+    count += parts.length - 1;
+    redacted = parts.join(REDACTED);
+  }
+
+  for (const pattern of patterns) {
+    const global = pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+    redacted = redacted.replace(global, (match) => {
+      if (match === "" || match === REDACTED) return match;
+      count += 1;
+      return REDACTED;
+    });
+  }
+
+  return { text: redacted, count };
+}
+
+export function formatRedactionCount(count: number): string {
+  return `${count} sensitive value${count === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,104 @@
+import type { RunReport } from "@moonrepo/types";
+
+import { durationToMillis, formatDuration, formatPercent, millisToDuration } from "./format.js";
+import { cacheHitOf } from "./overview.js";
+import type { RunTaskAction } from "./report.js";
+
+/** Number of recent durations kept per target in the history file. */
+const DURATION_HISTORY_SIZE = 10;
+
+export interface DurationHistory {
+  version: 1;
+  /** Recent durations of each target in milliseconds, oldest first. */
+  targets: Record<string, number[]>;
+}
+
+export interface DurationRegression {
+  target: string;
+  /** Duration in this run, in milliseconds. */
+  duration: number;
+  /** Median duration of the recorded runs, in milliseconds. */
+  median: number;
+}
+
+/** Slowdowns beyond which a task is flagged, either one being enough. A threshold of `0` isn't checked. */
+export interface RegressionThresholds {
+  percent: number;
+  millis: number;
+}
+
+/** Durations of tasks that ran and passed, cache hits and failures aren't representative. */
+export function ranTaskDurations(report: RunReport): Map<string, number> {
+  const durations = new Map<string, number>();
+
+  for (const action of report.actions) {
+    if (action.node.action !== "run-task" || action.status !== "passed" || cacheHitOf(action) || !action.duration) {
+      continue;
+    }
+    durations.set((action as RunTaskAction).node.params.target, durationToMillis(action.duration));
+  }
+
+  return durations;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2 : (sorted[middle] ?? 0);
+}
+
+export function detectRegressions(
+  history: DurationHistory,
+  durations: Map<string, number>,
+  { percent, millis }: RegressionThresholds,
+): DurationRegression[] {
+  const regressions: DurationRegression[] = [];
+
+  for (const [target, duration] of durations) {
+    const recorded = history.targets[target];
+    if (!recorded || recorded.length === 0) continue;
+
+    const baseline = median(recorded);
+    const slowdown = duration - baseline;
+    // Tasks that used to take no time at all got slower by no meaningful percentage
+    const exceedsPercent = percent > 0 && baseline > 0 && (slowdown / baseline) * 100 >= percent;
+    const exceedsMillis = millis > 0 && slowdown >= millis;
+    if (slowdown > 0 && (exceedsPercent || exceedsMillis)) {
+      regressions.push({ target, duration, median: baseline });
+    }
+  }
+
+  return regressions.sort((a, b) => b.duration - b.median - (a.duration - a.median));
+}
+
+export function recordDurations(history: DurationHistory, durations: Map<string, number>): DurationHistory {
+  const targets = { ...history.targets };
+
+  for (const [target, duration] of durations) {
+    targets[target] = [...(targets[target] ?? []), Math.round(duration)].slice(-DURATION_HISTORY_SIZE);
+  }
+
+  return { version: 1, targets };
+}
+
+export function formatRegressions(regressions: DurationRegression[]): string {
+  const lines: string[] = [
+    "## :snail: Performance Regressions",
+    "",
+    `**${regressions.length} task${regressions.length === 1 ? "" : "s"} got slower** than the median of ${regressions.length === 1 ? "its" : "their"} recent runs`,
+    "",
+    "| Target | Duration | Median | Change |",
+    "| --- | --- | --- | --- |",
+  ];
+
+  for (const { target, duration, median } of regressions) {
+    const percent = median > 0 ? ` (+${formatPercent((duration - median) / median)})` : "";
+    const change = `+${formatDuration(millisToDuration(duration - median))}${percent}`;
+    lines.push(
+      `| \`${target}\` | ${formatDuration(millisToDuration(duration))} | ${formatDuration(millisToDuration(median))} | ${change} |`,
+    );
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
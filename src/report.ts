@@ -0,0 +1,199 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import type {
+  Action,
+  ActionNodeRunTask,
+  ActionStatus,
+  Duration,
+  Operation,
+  OperationMetaTaskExecution,
+  RunReport,
+} from "@moonrepo/types";
+
+import { durationToMillis } from "./format.js";
+import { log } from "./logger.js";
+
+// --- Report loading ---
+
+export async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function findReportPath(directory: string): Promise<string | null> {
+  for (const fileName of ["ciReport.json", "runReport.json"]) {
+    const reportPath = path.join(directory, fileName);
+    log.debug(`Finding run report at ${reportPath}`);
+    if (await fileExists(reportPath)) {
+      log.debug("Found!");
+      return reportPath;
+    }
+  }
+  return null;
+}
+
+export async function readReport(reportPath: string): Promise<RunReport> {
+  const content = await readFile(reportPath, { encoding: "utf8" });
+  return JSON.parse(content) as RunReport;
+}
+
+// --- Target parsing ---
+
+export interface TargetIdentity {
+  /** Project of the target, or its scope, e.g. `~`, `^` or a `#tag`. */
+  project: string;
+  task: string;
+}
+
+/** Splits a target at its first `:`, as the scope never contains one while nested task IDs may. */
+export function parseTarget(target: string): TargetIdentity {
+  const separator = target.indexOf(":");
+  if (separator < 0) {
+    return { project: "unknown", task: target || "unknown" };
+  }
+
+  return { project: target.slice(0, separator), task: target.slice(separator + 1) || "unknown" };
+}
+
+export function commandOf(action: Action): string | null {
+  for (const operation of action.operations) {
+    if (operation.meta.type === "task-execution") {
+      return (operation.meta as OperationMetaTaskExecution).command ?? null;
+    }
+  }
+  return null;
+}
+
+/** Project data from moon's cache, only the fields used by the action. */
+export interface ProjectGraphNode {
+  id?: string;
+  source?: string;
+  config?: {
+    owners?: {
+      defaultOwner?: string | null;
+      /** Globs owned by the default owner, or owners by glob. */
+      paths?: string[] | Record<string, string[]>;
+    };
+  };
+}
+
+interface ProjectGraphCache {
+  nodes?: ProjectGraphNode[];
+}
+
+/** Cache files written by moon that contain the source directory of each project, newest layout first. */
+export const PROJECT_GRAPH_CACHE_FILES = [
+  "states/projectsBuildData.json",
+  "states/partialProjectGraph.json",
+  "states/projectGraph.json",
+  "states/workspaceGraph.json",
+];
+
+/** Reads the projects from the newest project graph cache file that lists any. */
+export async function loadProjectNodes(workspaceRoot: string): Promise<ProjectGraphNode[]> {
+  for (const fileName of PROJECT_GRAPH_CACHE_FILES) {
+    const cachePath = path.join(workspaceRoot, ".moon/cache", fileName);
+    if (!(await fileExists(cachePath))) continue;
+
+    try {
+      const content = JSON.parse(await readFile(cachePath, { encoding: "utf8" })) as ProjectGraphCache;
+      // The graph caches list project nodes, while the build data maps project IDs to their data
+      const nodes = Array.isArray(content.nodes)
+        ? content.nodes
+        : Object.entries(content as Record<string, ProjectGraphNode>).map(([id, data]) => ({ id, ...data }));
+
+      const projects = nodes.filter(({ id, source }) => id && typeof source === "string");
+      if (projects.length > 0) {
+        log.debug(`Found ${projects.length} projects in ${cachePath}`);
+        return projects;
+      }
+    } catch (error: unknown) {
+      log.debug(`Failed to read projects from ${cachePath}: ${String(error)}`);
+    }
+  }
+
+  return [];
+}
+
+export async function loadProjectSources(workspaceRoot: string): Promise<Map<string, string>> {
+  const nodes = await loadProjectNodes(workspaceRoot);
+  return new Map(nodes.map(({ id, source }) => [id as string, source as string]));
+}
+
+// --- Failure filtering ---
+
+export const FAILURE_STATUSES = new Set<ActionStatus>(["failed", "failed-and-abort"]);
+
+export type RunTaskAction = Action & { node: ActionNodeRunTask };
+
+/**
+ * How a task that didn't pass ended: a hard `failure`, an `allowed-failure` of a task with `allowFailure`, a `timeout`
+ * of a task killed for running longer than its `timeout`, or `aborted` before it finished.
+ */
+export type ResultCategory = "failure" | "allowed-failure" | "timeout" | "aborted";
+
+/** Configured timeout of the task in seconds, `null` when it has none. */
+export function timeoutOf(action: RunTaskAction): number | null {
+  const timeout: unknown = action.node.params.timeout;
+  return typeof timeout === "number" && timeout > 0 ? timeout : null;
+}
+
+/** Category of the result of a task, `null` for tasks that passed, were skipped or aren't tasks. */
+export function categoryOf(action: Action): ResultCategory | null {
+  if (action.node.action !== "run-task") {
+    return null;
+  }
+  if (action.status === "aborted") {
+    return "aborted";
+  }
+
+  // moon reports tasks it killed as failed, with a duration of at least their timeout
+  const timeout = timeoutOf(action as RunTaskAction);
+  const timedOut =
+    action.status === "timed-out" ||
+    (FAILURE_STATUSES.has(action.status) && timeout !== null && durationToMillis(action.duration) >= timeout * 1000);
+  if (!timedOut && !FAILURE_STATUSES.has(action.status)) {
+    return null;
+  }
+
+  if (action.allowFailure) {
+    return "allowed-failure";
+  }
+  return timedOut ? "timeout" : "failure";
+}
+
+/** Tasks that failed the run, by failing or timing out, as opposed to the allowed failures. */
+export function isFailedTask(action: Action): action is RunTaskAction {
+  const category = categoryOf(action);
+  return category === "failure" || category === "timeout";
+}
+
+export interface TaskAttempt {
+  status: ActionStatus;
+  duration: Duration | null;
+  stderr: string;
+}
+
+export function attemptsOf(action: Action): TaskAttempt[] {
+  return action.operations
+    .filter((operation: Operation) => operation.meta.type === "task-execution")
+    .map((operation: Operation) => ({
+      status: operation.status,
+      duration: operation.duration ?? null,
+      stderr: (operation.meta as OperationMetaTaskExecution).stderr ?? "",
+    }));
+}
+
+/** Tasks that eventually passed, but were marked as flaky by moon or needed more than one attempt. */
+export function isFlakyTask(action: Action): action is RunTaskAction {
+  return (
+    action.node.action === "run-task" &&
+    !FAILURE_STATUSES.has(action.status) &&
+    (action.flaky || attemptsOf(action).length > 1)
+  );
+}
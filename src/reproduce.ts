@@ -0,0 +1,72 @@
+import path from "node:path";
+
+import type { RunReport } from "@moonrepo/types";
+
+import type { RunTaskAction } from "./report.js";
+
+export interface Reproduction {
+  /** `moon run` invocation with the options of the run the task failed in. */
+  command: string;
+  /** Toolchain the task ran with, e.g. `node 20.11.0`, `null` for system tasks. */
+  toolchain: string | null;
+  /** Files touched by the change inside the project of the task, relative to the workspace root. */
+  touchedFiles: string[];
+}
+
+/** Quotes an argument for POSIX shells, unless it only contains characters that are safe as is. */
+function quoteArgument(argument: string): string {
+  return /^[\w@%+=:,./-]+$/.test(argument) ? argument : `'${argument.replaceAll("'", `'\\''`)}'`;
+}
+
+/** Version requirement of a runtime, which moon serializes as `"Global"` or as an object holding the version. */
+function versionOf(requirement: unknown): string | null {
+  if (typeof requirement === "string") {
+    return requirement === "Global" ? "global" : requirement;
+  }
+  if (requirement === null || typeof requirement !== "object") {
+    return null;
+  }
+
+  for (const value of Object.values(requirement)) {
+    const version = versionOf(value);
+    if (version) return version;
+  }
+  return null;
+}
+
+function toolchainOf(action: RunTaskAction): string | null {
+  const runtime = action.node.params.runtime as { platform?: unknown; requirement?: unknown } | null | undefined;
+  const platform = typeof runtime?.platform === "string" ? runtime.platform : null;
+  if (!platform || platform === "system" || platform === "unknown") {
+    return null;
+  }
+
+  const version = versionOf(runtime?.requirement);
+  return version ? `${platform} ${version}` : platform;
+}
+
+/** Builds the `moon run` command reproducing the run of a task, with the touched files inside `projectSource`. */
+export function reproductionOf(report: RunReport, action: RunTaskAction, projectSource?: string): Reproduction {
+  const context = report.context;
+  const passthroughArgs: string[] = context?.passthroughArgs ?? [];
+
+  const command = [
+    "moon run",
+    quoteArgument(action.node.params.target),
+    ...(context?.affectedOnly ? ["--affected"] : []),
+    ...(context?.profile ? ["--profile", quoteArgument(String(context.profile))] : []),
+    ...(passthroughArgs.length > 0 ? ["--", ...passthroughArgs.map(quoteArgument)] : []),
+  ].join(" ");
+
+  const touchedFiles: string[] = context?.touchedFiles ?? [];
+  const projectRoot = projectSource ? path.posix.normalize(projectSource.replaceAll("\\", "/")) : null;
+
+  return {
+    command,
+    toolchain: toolchainOf(action),
+    touchedFiles:
+      projectRoot && projectRoot !== "."
+        ? touchedFiles.filter((file) => file.replaceAll("\\", "/").startsWith(`${projectRoot}/`)).sort()
+        : [],
+  };
+}
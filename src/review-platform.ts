@@ -0,0 +1,274 @@
+import { log } from "./logger.js";
+import { commentTag, enforceCommentSizeLimit, formatResolvedComment, RESOLVED_MARKER } from "./markdown.js";
+
+/** A comment on a change request, i.e. a pull request or a merge request. */
+export interface ReviewNote {
+  id: number;
+  body: string;
+  /** ID of the note in a GraphQL API, for platforms that hide notes through one. */
+  nodeId?: string;
+}
+
+/** Code review platform the comments of a run are posted to. */
+export interface ReviewPlatform {
+  name: string;
+  /** Finds the pull or merge request of the run, `null` when the run isn't for one. */
+  resolveChangeRequest(): Promise<number | null>;
+  listNotes(changeRequest: number): Promise<ReviewNote[]>;
+  createNote(changeRequest: number, body: string): Promise<unknown>;
+  updateNote(changeRequest: number, note: ReviewNote, body: string): Promise<unknown>;
+  deleteNote(changeRequest: number, note: ReviewNote): Promise<unknown>;
+  /** Hides a note as outdated, or shows it again. Undefined on platforms that can't hide notes. */
+  setNoteHidden?(changeRequest: number, note: ReviewNote, hidden: boolean): Promise<unknown>;
+  /** IDs of the given notes that are currently hidden, defined along with `setNoteHidden`. */
+  hiddenNoteIds?(notes: ReviewNote[]): Promise<Set<number>>;
+}
+
+/** What happens to the note of a comment that is no longer posted, e.g. because its target passes again. */
+export type StaleNoteStrategy = "delete" | "minimize" | "edit-resolved";
+
+export interface PlannedNote {
+  /** Comment ID in the token of the note, e.g. a target. */
+  id: string;
+  markdown: string;
+}
+
+// --- Rate limits ---
+
+/** Writes sent back to back before pausing, to stay clear of secondary rate limits. */
+const NOTE_WRITE_BATCH_SIZE = 10;
+const NOTE_WRITE_BATCH_DELAY_MS = 1000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+/** Longest wait for a rate limit to reset, beyond which the request fails instead. */
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+
+function sleep(millis: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, millis));
+}
+
+/** How long to wait before retrying a request that was rate limited, `null` when it failed for another reason. */
+function rateLimitDelay(error: unknown, attempt: number): number | null {
+  const { status, message, response } = error as {
+    status?: number;
+    message?: string;
+    response?: { headers?: Record<string, string | number | undefined> };
+  };
+  if (status !== 403 && status !== 429) {
+    return null;
+  }
+
+  const headers = response?.headers ?? {};
+  const retryAfter = headers["retry-after"];
+  if (retryAfter !== undefined && !Number.isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+  if (String(headers["x-ratelimit-remaining"]) === "0" && headers["x-ratelimit-reset"] !== undefined) {
+    return Math.max(Number(headers["x-ratelimit-reset"]) * 1000 - Date.now(), 0);
+  }
+  // A 403 without rate limit headers is most likely missing permissions, e.g. on forks
+  if (status === 429 || /secondary rate limit/i.test(message ?? "")) {
+    return 1000 * 2 ** attempt;
+  }
+
+  return null;
+}
+
+/**
+ * Retries a request that was rate limited, for errors carrying the HTTP `status` and `response.headers` as thrown by
+ * Octokit and {@link requestJson}.
+ */
+export async function withRateLimitRetries<T>(description: string, request: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error: unknown) {
+      const delay = rateLimitDelay(error, attempt);
+      if (delay === null || attempt >= MAX_RATE_LIMIT_RETRIES || delay > MAX_RATE_LIMIT_WAIT_MS) {
+        throw error;
+      }
+
+      log.info(`Rate limited while ${description}, retrying in ${Math.ceil(delay / 1000)}s`);
+      await sleep(delay);
+    }
+  }
+}
+
+/** Sends a request to a JSON API, throwing an error with the `status` and `response` of failed requests. */
+export async function requestJson<T>(
+  url: string,
+  { method = "GET", headers = {}, body }: { method?: string; headers?: Record<string, string>; body?: unknown } = {},
+): Promise<{ data: T; headers: Headers }> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Accept: "application/json",
+      ...(body !== undefined && { "Content-Type": "application/json" }),
+      ...headers,
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+  const text = await response.text();
+
+  if (!response.ok) {
+    const message = (() => {
+      try {
+        const parsed = JSON.parse(text) as { message?: unknown; error?: { message?: unknown } };
+        return String(parsed.message ?? parsed.error?.message ?? text);
+      } catch {
+        return text;
+      }
+    })();
+    throw Object.assign(new Error(`${method} ${url} failed with ${response.status}: ${message}`), {
+      status: response.status,
+      response: { headers: Object.fromEntries(response.headers) },
+    });
+  }
+
+  return { data: (text ? JSON.parse(text) : null) as T, headers: response.headers };
+}
+
+// --- Note syncing ---
+
+/** A write planned while reconciling notes, sent once every change is known. */
+interface NoteWrite {
+  description: string;
+  send: () => Promise<unknown>;
+}
+
+async function sendNoteWrites(writes: NoteWrite[]): Promise<void> {
+  for (const [index, { description, send }] of writes.entries()) {
+    if (index > 0 && index % NOTE_WRITE_BATCH_SIZE === 0) {
+      log.debug(`Pausing ${NOTE_WRITE_BATCH_DELAY_MS}ms after ${index} comment writes`);
+      await sleep(NOTE_WRITE_BATCH_DELAY_MS);
+    }
+
+    log.debug(description);
+    await withRateLimitRetries(description, send);
+  }
+}
+
+/** Notes of the job group on the change request, by the comment ID in their token. */
+async function listOwnNotes(
+  platform: ReviewPlatform,
+  changeRequest: number,
+  jobGroup: string,
+): Promise<Map<string, ReviewNote[]>> {
+  const tag = commentTag(jobGroup);
+  const notes = await withRateLimitRetries("listing comments", () => platform.listNotes(changeRequest));
+  log.debug(`Found ${notes.length} comments on #${changeRequest}`);
+
+  const ownNotes = new Map<string, ReviewNote[]>();
+  for (const note of notes) {
+    const id = note.body.match(new RegExp(`<!-- ${tag}-(.+?) -->`))?.[1];
+    if (id) {
+      ownNotes.set(id, [...(ownNotes.get(id) ?? []), note]);
+    }
+  }
+
+  return ownNotes;
+}
+
+export interface SyncNotesOptions {
+  jobGroup: string;
+  staleNoteStrategy: StaleNoteStrategy;
+  sha: string;
+  /**
+   * Targets that still fail, whose notes are left as they are when they aren't planned, e.g. because the failure is
+   * shown in the note of another target.
+   */
+  failingTargets?: Iterable<string>;
+}
+
+/**
+ * Creates or updates the given notes by the marker in their token, and deletes, hides or collapses the ones of the job
+ * group that are no longer needed, apart from the ones of `failingTargets`. Notes that haven't changed aren't written
+ * again. On platforms that can't hide notes, `minimize` collapses them like `edit-resolved` does.
+ */
+export async function syncNotes(
+  platform: ReviewPlatform,
+  changeRequest: number,
+  notes: PlannedNote[],
+  { jobGroup, staleNoteStrategy, sha, failingTargets = [] }: SyncNotesOptions,
+): Promise<void> {
+  const ownNotes = await listOwnNotes(platform, changeRequest, jobGroup);
+  const writes: NoteWrite[] = [];
+  const setNoteHidden = platform.setNoteHidden?.bind(platform);
+  const strategy = staleNoteStrategy === "minimize" && !setNoteHidden ? "edit-resolved" : staleNoteStrategy;
+
+  // Only notes whose state changes are hidden or shown, so that runs with nothing new don't write at all
+  const hiddenIds =
+    strategy === "minimize" && platform.hiddenNoteIds
+      ? await withRateLimitRetries(
+          "finding hidden comments",
+          () => platform.hiddenNoteIds?.([...ownNotes.values()].flat()) ?? Promise.resolve(new Set<number>()),
+        )
+      : new Set<number>();
+  const setHidden = (note: ReviewNote, hidden: boolean): NoteWrite[] =>
+    hiddenIds.has(note.id) === hidden
+      ? []
+      : [
+          {
+            description: `${hidden ? "minimizing" : "unminimizing"} comment #${note.id}`,
+            send: () => setNoteHidden?.(changeRequest, note, hidden) ?? Promise.resolve(),
+          },
+        ];
+
+  for (const { id, markdown } of notes) {
+    const body = enforceCommentSizeLimit(markdown);
+    const [existing, ...duplicates] = ownNotes.get(id) ?? [];
+    ownNotes.delete(id);
+
+    if (!existing) {
+      writes.push({
+        description: `creating comment for ${id}`,
+        send: () => platform.createNote(changeRequest, body),
+      });
+      continue;
+    }
+
+    if (strategy === "minimize") {
+      // Revives the note in case it was hidden when the target passed on a previous run
+      writes.push(...setHidden(existing, false));
+    }
+    if (existing.body !== body) {
+      writes.push({
+        description: `updating comment #${existing.id} for ${id}`,
+        send: () => platform.updateNote(changeRequest, existing, body),
+      });
+    }
+    // Left behind by runs that didn't see every note of the change request
+    for (const duplicate of duplicates) {
+      writes.push({
+        description: `deleting duplicate comment #${duplicate.id} for ${id}`,
+        send: () => platform.deleteNote(changeRequest, duplicate),
+      });
+    }
+  }
+
+  // Only the notes of targets that passed are stale
+  for (const target of failingTargets) {
+    ownNotes.delete(target);
+  }
+  for (const [id, staleNotes] of ownNotes) {
+    for (const note of staleNotes) {
+      if (strategy === "minimize") {
+        writes.push(...setHidden(note, true));
+      } else if (strategy === "edit-resolved") {
+        if (note.body.includes(RESOLVED_MARKER)) continue;
+
+        const body = formatResolvedComment(jobGroup, id, note.body, sha);
+        writes.push({
+          description: `marking stale comment #${note.id} for ${id} as resolved`,
+          send: () => platform.updateNote(changeRequest, note, body),
+        });
+      } else {
+        writes.push({
+          description: `deleting stale comment #${note.id} for ${id}`,
+          send: () => platform.deleteNote(changeRequest, note),
+        });
+      }
+    }
+  }
+
+  await sendNoteWrites(writes);
+}
@@ -0,0 +1,184 @@
+import { readFile } from "node:fs/promises";
+
+import type { Action, ActionStatus, RunReport } from "@moonrepo/types";
+
+import { log } from "./logger.js";
+import { attemptsOf, FAILURE_STATUSES, fileExists, type RunTaskAction } from "./report.js";
+
+/** Graph printed by `moon action-graph --json`, where an edge points from an action to an action it requires. */
+export interface ActionGraph {
+  nodes: Array<{ id: number; label?: string }>;
+  edges: Array<{ source: number; target: number }>;
+}
+
+export interface BlockedTask {
+  target: string;
+  status: ActionStatus;
+  /** Failed targets upstream of the task that are root causes. */
+  blockedBy: string[];
+}
+
+export interface RootCauseAnalysis {
+  rootCauses: string[];
+  blocked: BlockedTask[];
+  /** Edges of the failing subgraph, from a failed target to a target it blocked. */
+  edges: Array<[string, string]>;
+}
+
+/** Statuses of tasks that didn't pass, either by failing themselves or because of a failure upstream. */
+const UNSUCCESSFUL_STATUSES = new Set<ActionStatus>([...FAILURE_STATUSES, "skipped", "aborted"]);
+
+export async function loadActionGraph(graphPath: string): Promise<ActionGraph | null> {
+  if (!graphPath) {
+    return null;
+  }
+
+  if (!(await fileExists(graphPath))) {
+    log.warning(`Action graph ${graphPath} does not exist, falling back to the primary targets of the run.`);
+    return null;
+  }
+
+  const graph = JSON.parse(await readFile(graphPath, { encoding: "utf8" })) as Partial<ActionGraph>;
+  if (!Array.isArray(graph.nodes) || !Array.isArray(graph.edges)) {
+    log.warning(`Action graph ${graphPath} has no nodes or edges, falling back to the primary targets of the run.`);
+    return null;
+  }
+
+  return { nodes: graph.nodes, edges: graph.edges };
+}
+
+/** Nearest unsuccessful tasks each unsuccessful task depends on, skipping over the actions in between. */
+function dependenciesFromGraph(unsuccessful: RunTaskAction[], graph: ActionGraph): Map<string, string[]> {
+  // Prefer labels, as node indices differ when the graph was built for other targets than the run
+  const nodeIds = new Map<string, number>();
+  for (const action of unsuccessful) {
+    const node = graph.nodes.find(({ label }) => label === action.label) ?? { id: action.nodeIndex };
+    nodeIds.set(action.node.params.target, node.id);
+  }
+  const targetsByNode = new Map([...nodeIds].map(([target, id]) => [id, target]));
+
+  const requirements = new Map<number, number[]>();
+  for (const { source, target } of graph.edges) {
+    requirements.set(source, [...(requirements.get(source) ?? []), target]);
+  }
+
+  const dependencies = new Map<string, string[]>();
+  for (const [target, id] of nodeIds) {
+    const found = new Set<string>();
+    const visited = new Set<number>([id]);
+    const queue = [...(requirements.get(id) ?? [])];
+
+    while (queue.length > 0) {
+      const next = queue.shift() as number;
+      if (visited.has(next)) continue;
+      visited.add(next);
+
+      const dependency = targetsByNode.get(next);
+      if (dependency) {
+        found.add(dependency);
+      } else {
+        queue.push(...(requirements.get(next) ?? []));
+      }
+    }
+
+    dependencies.set(target, [...found]);
+  }
+
+  return dependencies;
+}
+
+/**
+ * Without a graph, primary targets that never executed are assumed to be blocked by the failures of the other
+ * targets, which only ran as dependencies.
+ */
+function dependenciesFromPrimaryTargets(report: RunReport, unsuccessful: RunTaskAction[]): Map<string, string[]> {
+  const primaryTargets = new Set<string>(report.context?.primaryTargets ?? []);
+  const upstreamFailures = unsuccessful
+    .filter((action) => FAILURE_STATUSES.has(action.status) && !primaryTargets.has(action.node.params.target))
+    .map((action) => action.node.params.target);
+
+  const dependencies = new Map<string, string[]>();
+  for (const action of unsuccessful) {
+    const target = action.node.params.target;
+    const executed = attemptsOf(action).length > 0;
+    dependencies.set(target, primaryTargets.has(target) && !executed ? upstreamFailures : []);
+  }
+
+  return dependencies;
+}
+
+/** Splits the failures of a run into root causes, and the tasks that failed or were skipped because of them. */
+export function analyzeRootCauses(report: RunReport, graph: ActionGraph | null): RootCauseAnalysis {
+  const unsuccessful = report.actions.filter(
+    (action: Action) => action.node.action === "run-task" && UNSUCCESSFUL_STATUSES.has(action.status),
+  ) as RunTaskAction[];
+  const statuses = new Map(unsuccessful.map((action) => [action.node.params.target, action.status]));
+  const dependencies = graph
+    ? dependenciesFromGraph(unsuccessful, graph)
+    : dependenciesFromPrimaryTargets(report, unsuccessful);
+
+  const rootsCache = new Map<string, Set<string>>();
+  const rootsOf = (target: string): Set<string> => {
+    const cached = rootsCache.get(target);
+    if (cached) return cached;
+
+    // Guards against cycles, which moon doesn't allow but a hand-written graph may contain
+    const roots = new Set<string>();
+    rootsCache.set(target, roots);
+
+    for (const dependency of dependencies.get(target) ?? []) {
+      const upstream = rootsOf(dependency);
+      if (upstream.size > 0) {
+        for (const root of upstream) roots.add(root);
+      } else if (FAILURE_STATUSES.has(statuses.get(dependency) as ActionStatus)) {
+        roots.add(dependency);
+      }
+    }
+
+    return roots;
+  };
+
+  const rootCauses: string[] = [];
+  const blocked: BlockedTask[] = [];
+  for (const action of unsuccessful) {
+    const target = action.node.params.target;
+    const roots = rootsOf(target);
+
+    if (roots.size > 0) {
+      blocked.push({ target, status: action.status, blockedBy: [...roots] });
+    } else if (FAILURE_STATUSES.has(action.status)) {
+      rootCauses.push(target);
+    }
+  }
+
+  const involved = new Set([...rootCauses, ...blocked.map(({ target }) => target)]);
+  const edges: Array<[string, string]> = blocked.flatMap(({ target }) =>
+    (dependencies.get(target) ?? [])
+      .filter((dependency) => involved.has(dependency))
+      .map((dependency): [string, string] => [dependency, target]),
+  );
+
+  return { rootCauses, blocked, edges };
+}
+
+export function formatBlockedTasks(blocked: BlockedTask[]): string[] {
+  return blocked.map(
+    ({ target, blockedBy }) => `- \`${target}\` blocked by ${blockedBy.map((root) => `\`${root}\``).join(", ")}`,
+  );
+}
+
+/** Renders the failing subgraph as a Mermaid flowchart, with root causes highlighted. */
+export function formatFailureGraph({ rootCauses, blocked, edges }: RootCauseAnalysis): string {
+  const ids = new Map([...rootCauses, ...blocked.map(({ target }) => target)].map((target, index) => [target, index]));
+
+  return [
+    "```mermaid",
+    "graph LR",
+    ...rootCauses.map((target) => `  t${ids.get(target)}["${target}"]:::rootCause`),
+    ...blocked.map(({ target }) => `  t${ids.get(target)}["${target}"]:::blocked`),
+    ...edges.map(([from, to]) => `  t${ids.get(from)} --> t${ids.get(to)}`),
+    "  classDef rootCause fill:#ffebe9,stroke:#cf222e",
+    "  classDef blocked fill:#f6f8fa,stroke:#8c959f,stroke-dasharray:3 3",
+    "```",
+  ].join("\n");
+}
@@ -0,0 +1,144 @@
+import path from "node:path";
+
+import type { RunReport } from "@moonrepo/types";
+
+import { formatFixedTargets } from "./baseline.js";
+import {
+  type AbortedTaskInfo,
+  type CollectFailuresOptions,
+  collectAbortedTasks,
+  collectAllowedFailures,
+  collectFailures,
+  collectFlakyTasks,
+  type FailedTaskInfo,
+  type FlakyTaskInfo,
+} from "./failures.js";
+import { groupFailures, sameFailureOf } from "./fingerprint.js";
+import {
+  AGGREGATE_COMMENT_ID,
+  FLAKY_COMMENT_ID,
+  formatAbortedTasks,
+  formatAggregateComment,
+  formatAllowedFailures,
+  formatFlakyComment,
+  formatFlakyTasks,
+  formatStepSummary,
+  formatTaskComment,
+  formatTimeouts,
+  type MarkdownOptions,
+} from "./markdown.js";
+import { findReportPath, readReport } from "./report.js";
+import type { PlannedNote } from "./review-platform.js";
+import type { RootCauseAnalysis } from "./root-cause.js";
+
+/** What a run ended with: the tasks that didn't pass, each in its category, and what blocked what. */
+export interface RunResults {
+  failures: FailedTaskInfo[];
+  allowedFailures: FailedTaskInfo[];
+  abortedTasks: AbortedTaskInfo[];
+  flakyTasks: FlakyTaskInfo[];
+  rootCauses: RootCauseAnalysis;
+}
+
+export interface RunReportFile {
+  path: string;
+  report: RunReport;
+}
+
+/** Finds and reads the report of the last `moon ci` or `moon run` of the workspace, `null` when there is none. */
+export async function loadRunReport(workspaceRoot: string): Promise<RunReportFile | null> {
+  const reportPath = await findReportPath(path.join(workspaceRoot, ".moon/cache"));
+  return reportPath ? { path: reportPath, report: await readReport(reportPath) } : null;
+}
+
+/** Collects the results of every category from the report, analyzed against the given root causes. */
+export async function collectRunResults(
+  report: RunReport,
+  options: CollectFailuresOptions & { rootCauses: RootCauseAnalysis },
+): Promise<RunResults> {
+  return {
+    failures: await collectFailures(report, options),
+    allowedFailures: await collectAllowedFailures(report, options),
+    abortedTasks: collectAbortedTasks(report),
+    flakyTasks: collectFlakyTasks(report, options.secretPatterns),
+    rootCauses: options.rootCauses,
+  };
+}
+
+/** Sections about the timeouts, allowed failures and aborted tasks, each left out when there are none. */
+export function formatCategorySections(
+  { failures, allowedFailures, abortedTasks }: Pick<RunResults, "failures" | "allowedFailures" | "abortedTasks">,
+  markdownOptions: Pick<MarkdownOptions, "excerpt">,
+): string[] {
+  const sections: string[] = [];
+  const timeouts = failures.filter(({ category }) => category === "timeout");
+  if (timeouts.length > 0) {
+    sections.push(formatTimeouts(timeouts));
+  }
+  if (allowedFailures.length > 0) {
+    sections.push(formatAllowedFailures(allowedFailures, markdownOptions.excerpt));
+  }
+  if (abortedTasks.length > 0) {
+    sections.push(formatAbortedTasks(abortedTasks));
+  }
+  return sections;
+}
+
+/**
+ * Sections of the step summary about the results of the run, with the targets that failed in the baseline and pass
+ * now when given.
+ */
+export function formatResultSections(
+  results: RunResults,
+  markdownOptions: MarkdownOptions,
+  fixedTargets: string[] = [],
+): string[] {
+  const { failures, flakyTasks, rootCauses } = results;
+  const sections: string[] = [];
+
+  if (failures.length > 0) {
+    sections.push(formatStepSummary(failures, rootCauses, markdownOptions));
+  }
+  sections.push(...formatCategorySections(results, markdownOptions));
+  if (fixedTargets.length > 0) {
+    sections.push(formatFixedTargets(fixedTargets));
+  }
+  if (flakyTasks.length > 0) {
+    sections.push(formatFlakyTasks(flakyTasks, markdownOptions.excerpt));
+  }
+  return sections;
+}
+
+export type CommentMode = "per-task" | "single" | "none";
+
+export const COMMENT_MODES: readonly CommentMode[] = ["per-task", "single", "none"];
+
+/** Comments about the failures of the run, and about its flaky tasks when `flakyComment` is set. */
+export function failureComments(
+  commentMode: CommentMode,
+  { failures, flakyTasks, rootCauses }: Pick<RunResults, "failures" | "flakyTasks" | "rootCauses">,
+  markdownOptions: MarkdownOptions,
+  flakyComment = false,
+): PlannedNote[] {
+  const comments: PlannedNote[] = [];
+  if (commentMode === "single" && failures.length > 0) {
+    comments.push({
+      id: AGGREGATE_COMMENT_ID,
+      markdown: formatAggregateComment(failures, markdownOptions, rootCauses),
+    });
+  } else if (commentMode === "per-task") {
+    comments.push(
+      // Blocked failures are listed in the comments of their root causes, and failures sharing a fingerprint in the
+      // comment of the first one. Comments they got on earlier runs aren't stale, see `failingTargets` of `syncNotes`
+      ...groupFailures(failures.filter((failure) => failure.blockedBy.length === 0)).map((group) => ({
+        id: group.failure.target,
+        markdown: formatTaskComment(group.failure, markdownOptions, { sameFailure: sameFailureOf(group) }),
+      })),
+    );
+  }
+  if (flakyComment && flakyTasks.length > 0) {
+    comments.push({ id: FLAKY_COMMENT_ID, markdown: formatFlakyComment(flakyTasks, markdownOptions) });
+  }
+
+  return comments;
+}
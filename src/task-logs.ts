@@ -0,0 +1,165 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { gunzipSync } from "node:zlib";
+
+import type { Operation, OperationMetaTaskExecution } from "@moonrepo/types";
+
+import { log } from "./logger.js";
+import { fileExists, parseTarget, type RunTaskAction, type TargetIdentity } from "./report.js";
+
+/** Where the logs of a task were found: the run report, the state directory of the task, or its output archive. */
+export type TaskLogSource = "report" | "state" | "archive";
+
+export interface TaskLogs {
+  stdout: string;
+  stderr: string;
+  /** `null` when no source had logs for the task. */
+  source: TaskLogSource | null;
+  /** Files the logs were read from, empty when they came from the report. */
+  files: string[];
+}
+
+type TaskLogResolver = (workspaceRoot: string, action: RunTaskAction) => Promise<Omit<TaskLogs, "source"> | null>;
+
+/** Output captured by moon in the task execution operations, the last attempt winning. */
+const fromReport: TaskLogResolver = async (_workspaceRoot, action) => {
+  const executions = action.operations
+    .filter((operation: Operation) => operation.meta.type === "task-execution")
+    .map((operation: Operation) => operation.meta as OperationMetaTaskExecution)
+    .filter((meta: OperationMetaTaskExecution) => typeof meta.stdout === "string" || typeof meta.stderr === "string");
+  const execution = executions.at(-1);
+
+  return execution ? { stdout: execution.stdout ?? "", stderr: execution.stderr ?? "", files: [] } : null;
+};
+
+function encodeComponent(component: string): string {
+  let encoded = component.replaceAll("/", "-");
+  encoded = encoded.replace(/[.-]+$/, "");
+  encoded = encoded.replace(/^[.-]+/, "");
+  return encoded;
+}
+
+/** Directories moon wrote the state of a task to, relative to `.moon/cache/states`, in every layout it used. */
+function stateDirectoriesOf({ project, task }: TargetIdentity): string[] {
+  const directories = [
+    // Nested task IDs, e.g. `lint/js`, as nested directories
+    path.join(project, task),
+    // Older versions flatten the IDs instead
+    path.join(encodeComponent(project), encodeComponent(task)),
+  ];
+
+  return [...new Set(directories)];
+}
+
+const fromStateDirectory: TaskLogResolver = async (workspaceRoot, action) => {
+  const statesRoot = path.join(workspaceRoot, ".moon/cache/states");
+  const identity = parseTarget(action.node.params.target);
+  // Targets scoped by `~`, `^`, a `#tag` or nothing don't name the project whose state directory has the logs, and
+  // guessing could pick the logs of another project
+  if (!identity.project || /^[~^#]/.test(identity.project)) {
+    return null;
+  }
+
+  for (const directory of stateDirectoriesOf(identity)) {
+    const stdoutPath = path.join(statesRoot, directory, "stdout.log");
+    const stderrPath = path.join(statesRoot, directory, "stderr.log");
+    const files = [stdoutPath, stderrPath];
+    const existing = await Promise.all(files.map(fileExists));
+    if (!existing.some(Boolean)) continue;
+
+    return {
+      stdout: existing[0] ? await readFile(stdoutPath, { encoding: "utf8" }) : "",
+      stderr: existing[1] ? await readFile(stderrPath, { encoding: "utf8" }) : "",
+      files: files.filter((_, index) => existing[index]),
+    };
+  }
+
+  return null;
+};
+
+function tarField(header: Buffer, start: number, length: number): string {
+  return header
+    .subarray(start, start + length)
+    .toString("utf8")
+    .replace(/\0[\s\S]*$/, "")
+    .trim();
+}
+
+/** Reads the regular files of a tar archive by path. */
+function readTarEntries(archive: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+
+  for (let offset = 0; offset + 512 <= archive.length; ) {
+    const header = archive.subarray(offset, offset + 512);
+    const name = tarField(header, 0, 100);
+    if (!name) break;
+
+    const prefix = tarField(header, 345, 155);
+    const size = Number.parseInt(tarField(header, 124, 12) || "0", 8);
+    const type = tarField(header, 156, 1);
+    offset += 512;
+
+    if (type === "" || type === "0") {
+      entries.set(prefix ? `${prefix}/${name}` : name, archive.subarray(offset, offset + size));
+    }
+    offset += Math.ceil(size / 512) * 512;
+  }
+
+  return entries;
+}
+
+/** Hashes moon generated for the task, which name the archives of its outputs. */
+function hashesOf(action: RunTaskAction): string[] {
+  return action.operations
+    .map((operation: Operation) => (operation.meta as { hash?: unknown }).hash)
+    .filter((hash: unknown): hash is string => typeof hash === "string" && /^\w+$/.test(hash));
+}
+
+/** Logs hydrated from the output archive of the task, which moon stores alongside its outputs. */
+const fromOutputArchive: TaskLogResolver = async (workspaceRoot, action) => {
+  for (const hash of hashesOf(action).reverse()) {
+    const archivePath = path.join(workspaceRoot, ".moon/cache/outputs", `${hash}.tar.gz`);
+    if (!(await fileExists(archivePath))) continue;
+
+    try {
+      const entries = readTarEntries(gunzipSync(await readFile(archivePath)));
+      const logOf = (fileName: string) =>
+        [...entries].find(([entryPath]) => path.posix.basename(entryPath) === fileName)?.[1].toString("utf8");
+      const stdout = logOf("stdout.log");
+      const stderr = logOf("stderr.log");
+
+      if (stdout !== undefined || stderr !== undefined) {
+        return { stdout: stdout ?? "", stderr: stderr ?? "", files: [archivePath] };
+      }
+    } catch (error: unknown) {
+      log.debug(`Failed to read output archive ${archivePath}: ${String(error)}`);
+    }
+  }
+
+  return null;
+};
+
+/** Sources of task logs, tried in order until one has logs for the task. */
+const TASK_LOG_RESOLVERS: Array<[TaskLogSource, TaskLogResolver]> = [
+  ["report", fromReport],
+  ["state", fromStateDirectory],
+  ["archive", fromOutputArchive],
+];
+
+/**
+ * Finds the logs of a task in the output moon captured in the run report, the state directory of the task in any
+ * layout moon used, or the archive of its outputs.
+ */
+export async function resolveTaskLogs(workspaceRoot: string, action: RunTaskAction): Promise<TaskLogs> {
+  for (const [source, resolve] of TASK_LOG_RESOLVERS) {
+    const logs = await resolve(workspaceRoot, action);
+    // Empty output, e.g. when moon didn't capture it in the report, leaves the other sources a chance
+    if (logs && (logs.stdout || logs.stderr)) {
+      log.debug(`Found logs of ${action.node.params.target} in the ${source}`);
+      return { ...logs, source };
+    }
+  }
+
+  log.debug(`No logs found for ${action.node.params.target}`);
+  return { stdout: "", stderr: "", source: null, files: [] };
+}
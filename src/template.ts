@@ -0,0 +1,163 @@
+import { readFile } from "node:fs/promises";
+
+/**
+ * Variables a template may use. Lists map to the fields of their items, which can be used within a section iterating
+ * over the list, and other variables to an empty array.
+ */
+export type TemplateVariables = Readonly<Record<string, readonly string[]>>;
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "variable"; name: string }
+  | { type: "section"; name: string; inverted: boolean; children: TemplateNode[] };
+
+export interface Template {
+  name: string;
+  nodes: TemplateNode[];
+}
+
+/** Matches `{{name}}`, `{{{name}}}`, and section, inverted section, closing and comment tags. */
+const TAG_PATTERN = /\{\{(\{?)\s*([#^/!]?)\s*(.*?)\s*\}?\}\}/gs;
+
+const NAME_PATTERN = /^(?:\.|[\w-]+(?:\.[\w-]+)*)$/;
+
+/**
+ * Parses a Mustache-style template: `{{name}}` inserts a variable as is, `{{#name}}...{{/name}}` renders its content
+ * for a truthy value or once per item of a list, `{{^name}}...{{/name}}` renders its content for a falsy value or an
+ * empty list, and `{{! comment }}` is left out. Section and comment tags alone on a line don't leave an empty line.
+ *
+ * Throws on unbalanced sections and on variables that aren't listed in `variables`.
+ */
+export function parseTemplate(source: string, name: string, variables: TemplateVariables): Template {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ name: string; nodes: TemplateNode[]; line: number }> = [{ name: "", nodes: root, line: 0 }];
+  let position = 0;
+
+  const lineOf = (index: number) => source.slice(0, index).split("\n").length;
+  const fail = (index: number, message: string): never => {
+    throw new Error(`Invalid template ${name} on line ${lineOf(index)}: ${message}`);
+  };
+
+  const checkVariable = (index: number, variable: string) => {
+    if (!NAME_PATTERN.test(variable)) {
+      fail(index, `"${variable}" is not a variable name.`);
+    }
+
+    const [head = ""] = variable.split(".");
+    const available = new Set([
+      ...Object.keys(variables),
+      ...stack.flatMap((section) => variables[section.name] ?? []),
+    ]);
+    if (head !== "." && !available.has(head)) {
+      fail(index, `unknown variable "${variable}", expected one of: ${[...available].join(", ")}.`);
+    }
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, , sigil = "", key = ""] = match;
+    let start = match.index;
+    let end = start + tag.length;
+
+    if (sigil) {
+      const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+      const lineEnd = source.indexOf("\n", end);
+      const rest = source.slice(end, lineEnd < 0 ? source.length : lineEnd + 1);
+      if (lineStart >= position && /^[ \t]*$/.test(source.slice(lineStart, start)) && /^[ \t]*\r?\n?$/.test(rest)) {
+        start = lineStart;
+        end += rest.length;
+      }
+    }
+
+    const current = stack.at(-1) as (typeof stack)[number];
+    if (start > position) {
+      current.nodes.push({ type: "text", text: source.slice(position, start) });
+    }
+    position = end;
+
+    if (sigil === "!") {
+      continue;
+    }
+    if (sigil === "#" || sigil === "^") {
+      checkVariable(match.index, key);
+      const section: TemplateNode = { type: "section", name: key, inverted: sigil === "^", children: [] };
+      current.nodes.push(section);
+      stack.push({ name: key, nodes: section.children, line: lineOf(match.index) });
+    } else if (sigil === "/") {
+      if (stack.length === 1 || current.name !== key) {
+        fail(match.index, `{{/${key}}} doesn't close an open section.`);
+      }
+      stack.pop();
+    } else {
+      checkVariable(match.index, key);
+      current.nodes.push({ type: "variable", name: key });
+    }
+  }
+
+  const unclosed = stack.at(-1);
+  if (unclosed && stack.length > 1) {
+    throw new Error(`Invalid template ${name} on line ${unclosed.line}: {{#${unclosed.name}}} is never closed.`);
+  }
+  if (position < source.length) {
+    root.push({ type: "text", text: source.slice(position) });
+  }
+
+  return { name, nodes: root };
+}
+
+export async function readTemplate(templatePath: string, variables: TemplateVariables): Promise<Template> {
+  return parseTemplate(await readFile(templatePath, { encoding: "utf8" }), templatePath, variables);
+}
+
+function lookup(scopes: unknown[], name: string): unknown {
+  if (name === ".") {
+    return scopes.at(-1);
+  }
+
+  const [head = "", ...path] = name.split(".");
+  for (const scope of [...scopes].reverse()) {
+    if (scope !== null && typeof scope === "object" && head in scope) {
+      return path.reduce<unknown>(
+        (value, key) =>
+          value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+        (scope as Record<string, unknown>)[head],
+      );
+    }
+  }
+
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value)
+    ? value.length > 0
+    : value !== null && value !== undefined && value !== false && value !== "";
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  let output = "";
+
+  for (const node of nodes) {
+    if (node.type === "text") {
+      output += node.text;
+    } else if (node.type === "variable") {
+      const value = lookup(scopes, node.name);
+      output += value === null || value === undefined ? "" : String(value);
+    } else {
+      const value = lookup(scopes, node.name);
+      if (node.inverted) {
+        output += isTruthy(value) ? "" : renderNodes(node.children, scopes);
+      } else if (Array.isArray(value)) {
+        output += value.map((item) => renderNodes(node.children, [...scopes, item])).join("");
+      } else if (isTruthy(value)) {
+        output += renderNodes(node.children, [...scopes, value]);
+      }
+    }
+  }
+
+  return output;
+}
+
+/** Renders the template with the given context. Values are inserted as is, as the output is markdown. */
+export function renderTemplate(template: Template, context: object): string {
+  return renderNodes(template.nodes, [context]);
+}
@@ -0,0 +1,209 @@
+import type { FailedTaskInfo } from "./failures.js";
+import { stripAnsi } from "./format.js";
+import { excerptLog, type LogExcerptOptions } from "./log-excerpt.js";
+import { log } from "./logger.js";
+
+/** Shape of the payload posted to the webhook: Slack Block Kit, a Teams Adaptive Card, or plain JSON. */
+export type WebhookFormat = "slack" | "msteams" | "json";
+
+/** Failed targets listed in Slack and Teams messages, the others are counted. */
+const WEBHOOK_MAX_TARGETS = 10;
+/** Maximum length of the log excerpt of each failure, to stay within the message size limits of Slack and Teams. */
+const WEBHOOK_LOG_MAX_SIZE = 800;
+const WEBHOOK_MAX_RETRIES = 3;
+const WEBHOOK_RETRY_DELAY_MS = 1000;
+/** Longest wait a webhook may ask for before a retry, beyond which the notification fails instead. */
+const WEBHOOK_MAX_RETRY_AFTER_MS = 60_000;
+
+/** What a notification is about: the failures of a run and where the run happened. */
+export interface WebhookDigest {
+  failures: FailedTaskInfo[];
+  branch: string;
+  sha: string;
+  /** Author of the commit, `null` when unknown. */
+  author: string | null;
+  runUrl: string | null;
+  jobGroup: string;
+}
+
+interface DigestFailure {
+  target: string;
+  error: string | null;
+  baseline: FailedTaskInfo["baseline"];
+  excerpt: string;
+}
+
+function titleOf({ failures, branch, jobGroup }: WebhookDigest): string {
+  const tasks = `${failures.length} task${failures.length === 1 ? "" : "s"} failed`;
+  return `${jobGroup ? `${jobGroup}: ` : ""}${tasks}${branch ? ` on ${branch}` : ""}`;
+}
+
+function digestFailuresOf(failures: FailedTaskInfo[], excerpt: LogExcerptOptions): DigestFailure[] {
+  return failures.map(({ target, error, baseline, stdout, stderr }) => {
+    const output = stripAnsi(stderr.trim() || stdout.trim());
+    return {
+      target,
+      error: error && stripAnsi(error),
+      baseline,
+      excerpt: output && excerptLog(output, WEBHOOK_LOG_MAX_SIZE, excerpt),
+    };
+  });
+}
+
+/** Escapes the characters Slack reserves for links and mentions in `mrkdwn` text. */
+function escapeSlack(text: string): string {
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;");
+}
+
+function formatSlackPayload(digest: WebhookDigest, failures: DigestFailure[]): unknown {
+  const title = titleOf(digest);
+  const context = [
+    digest.sha && `\`${digest.sha.slice(0, 7)}\`${digest.author ? ` by ${escapeSlack(digest.author)}` : ""}`,
+    digest.runUrl && `<${digest.runUrl}|View run>`,
+  ].filter(Boolean);
+
+  const blocks: unknown[] = [{ type: "header", text: { type: "plain_text", text: `:x: ${title}` } }];
+  if (context.length > 0) {
+    blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: context.join(" · ") }] });
+  }
+  for (const { target, error, excerpt } of failures.slice(0, WEBHOOK_MAX_TARGETS)) {
+    const lines = [`*\`${target}\`*`];
+    if (error) lines.push(escapeSlack(error));
+    if (excerpt) lines.push(`\`\`\`${escapeSlack(excerpt)}\`\`\``);
+    blocks.push({ type: "section", text: { type: "mrkdwn", text: lines.join("\n") } });
+  }
+  if (failures.length > WEBHOOK_MAX_TARGETS) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `…and ${failures.length - WEBHOOK_MAX_TARGETS} more` }],
+    });
+  }
+
+  // The text is shown in notifications, where blocks aren't
+  return { text: title, blocks };
+}
+
+function formatTeamsPayload(digest: WebhookDigest, failures: DigestFailure[]): unknown {
+  const facts = [
+    ...(digest.sha ? [{ title: "Commit", value: digest.sha.slice(0, 7) }] : []),
+    ...(digest.author ? [{ title: "Author", value: digest.author }] : []),
+  ];
+
+  const body: unknown[] = [
+    { type: "TextBlock", text: titleOf(digest), size: "Large", weight: "Bolder", color: "Attention", wrap: true },
+  ];
+  if (facts.length > 0) {
+    body.push({ type: "FactSet", facts });
+  }
+  for (const { target, error, excerpt } of failures.slice(0, WEBHOOK_MAX_TARGETS)) {
+    body.push({ type: "TextBlock", text: target, weight: "Bolder", separator: true, wrap: true });
+    if (error) body.push({ type: "TextBlock", text: error, wrap: true });
+    if (excerpt) body.push({ type: "TextBlock", text: excerpt, fontType: "Monospace", size: "Small", wrap: true });
+  }
+  if (failures.length > WEBHOOK_MAX_TARGETS) {
+    body.push({ type: "TextBlock", text: `…and ${failures.length - WEBHOOK_MAX_TARGETS} more`, isSubtle: true });
+  }
+
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        contentUrl: null,
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body,
+          actions: digest.runUrl ? [{ type: "Action.OpenUrl", title: "View run", url: digest.runUrl }] : [],
+        },
+      },
+    ],
+  };
+}
+
+/** Builds the payload notifying about the failures of a run, in the given format. */
+export function formatWebhookPayload(
+  format: WebhookFormat,
+  digest: WebhookDigest,
+  excerpt: LogExcerptOptions,
+): unknown {
+  const failures = digestFailuresOf(digest.failures, excerpt);
+
+  switch (format) {
+    case "slack":
+      return formatSlackPayload(digest, failures);
+    case "msteams":
+      return formatTeamsPayload(digest, failures);
+    case "json":
+      return {
+        title: titleOf(digest),
+        branch: digest.branch,
+        sha: digest.sha,
+        author: digest.author,
+        runUrl: digest.runUrl,
+        jobGroup: digest.jobGroup,
+        failures,
+      };
+  }
+}
+
+function sleep(millis: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, millis));
+}
+
+/** Delay asked for by a `Retry-After` header, given in seconds or as an HTTP date, `null` when there is none. */
+function retryAfterOf(header: string | null): number | null {
+  if (!header?.trim()) {
+    return null;
+  }
+  const seconds = Number(header);
+  const delay = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+  return Number.isNaN(delay) ? null : Math.max(delay, 0);
+}
+
+/**
+ * Posts the payload to the webhook, retrying with an exponential backoff when the endpoint is unreachable, rate limits
+ * the request or fails with a server error. The URL is left out of errors, as it usually embeds a secret.
+ */
+export async function sendWebhook(url: string, payload: unknown): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    let failure: string;
+    let retryAfter: number | null = null;
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (response.ok) {
+        return;
+      }
+
+      failure = `the webhook responded with ${response.status}: ${(await response.text()).slice(0, 200)}`;
+      if (response.status !== 429 && response.status < 500) {
+        throw new Error(`Failed to send the notification, ${failure}`);
+      }
+      retryAfter = retryAfterOf(response.headers.get("retry-after"));
+      if (retryAfter !== null && retryAfter > WEBHOOK_MAX_RETRY_AFTER_MS) {
+        throw new Error(
+          `Failed to send the notification, ${failure}, asking to retry in ${Math.ceil(retryAfter / 1000)}s`,
+        );
+      }
+    } catch (error: unknown) {
+      // Errors of `fetch` itself are network errors, worth retrying
+      if (!(error instanceof TypeError)) {
+        throw error;
+      }
+      failure = `the webhook is unreachable: ${error.cause instanceof Error ? error.cause.message : error.message}`;
+    }
+
+    if (attempt >= WEBHOOK_MAX_RETRIES) {
+      throw new Error(`Failed to send the notification after ${attempt + 1} attempts, ${failure}`);
+    }
+    const delay = retryAfter ?? WEBHOOK_RETRY_DELAY_MS * 2 ** attempt;
+    log.info(`Sending the notification failed, ${failure}. Retrying in ${Math.ceil(delay / 1000)}s`);
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,135 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { type ActionResult, createWorkspace, type FakeGitHub, readOutput, runAction, startFakeGitHub } from "./helpers";
+
+describe("aggregate mode", () => {
+  let github: FakeGitHub;
+  let reportsDir: string;
+  let result: ActionResult;
+
+  beforeEach(async () => {
+    reportsDir = fs.mkdtempSync(path.join(os.tmpdir(), "shard-reports-"));
+    const shards = {
+      "shard-1": createWorkspace([
+        { target: "web:build", status: "passed" },
+        { target: "web:test", stderr: "FAIL src/app.test.ts > renders" },
+      ]),
+      "shard-2": createWorkspace([
+        { target: "api:build", status: "passed" },
+        { target: "api:lint", stderr: "src/routes.ts:3:1 error no-unused-vars" },
+      ]),
+    };
+    for (const [name, workDir] of Object.entries(shards)) {
+      fs.cpSync(workDir, path.join(reportsDir, `moon-report-${name}`), { recursive: true });
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+
+    github = await startFakeGitHub();
+    result = await runAction(reportsDir, {
+      ...github.env,
+      INPUT_MODE: "aggregate",
+      "INPUT_COMMENT-MODE": "single",
+      "INPUT_AGGREGATE-REPORTS": reportsDir,
+      "INPUT_REPORT-ARTIFACT": "moon-report",
+      "INPUT_EXPECTED-SHARDS": "shard-1\nshard-2\nshard-3",
+      GITHUB_SHA: "abc123",
+    });
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(reportsDir, { recursive: true, force: true });
+  });
+
+  test("step summary combines the failures of all shards", () => {
+    expect(result.summary).toMatchSnapshot();
+  });
+
+  test("missing-shards lists shards without a report", () => {
+    expect(JSON.parse(readOutput(result.output, "missing-shards") ?? "")).toEqual(["shard-3"]);
+    expect(result.stdout).toContain("shard-3");
+  });
+
+  test("has-failures is true", () => {
+    expect(readOutput(result.output, "has-failures")).toBe("true");
+  });
+
+  test("posts one summary comment with the failures of every shard", () => {
+    const failureComments = github.createdComments.filter((body) =>
+      body.includes("<!-- moon-ci-booster-all-summary -->"),
+    );
+    expect(failureComments).toHaveLength(1);
+    expect(failureComments[0]).toContain("`web:test`");
+    expect(failureComments[0]).toContain("`api:lint`");
+    expect(failureComments[0]).toContain("shard-2");
+  });
+
+  test("sets a failing commit status", () => {
+    expect(github.commitStatuses).toHaveLength(1);
+    expect(github.commitStatuses[0]).toMatchObject({
+      context: "moon ci",
+      state: "failure",
+      description: "2 tasks failed in 2 of 3 shards, 1 missing",
+    });
+  });
+});
+
+describe("aggregate mode with a baseline and owners", () => {
+  let github: FakeGitHub;
+  let reportsDir: string;
+  let baselineDir: string;
+  let result: ActionResult;
+
+  beforeEach(async () => {
+    reportsDir = fs.mkdtempSync(path.join(os.tmpdir(), "shard-reports-"));
+    const shards = {
+      "shard-1": { tasks: [{ target: "web:test", stderr: "FAIL src/app.test.ts > renders" }], owner: "@web-team" },
+      "shard-2": {
+        tasks: [{ target: "api:lint", stderr: "src/routes.ts:3:1 error no-unused-vars" }],
+        owner: "@api-team",
+      },
+    };
+    for (const [name, { tasks, owner }] of Object.entries(shards)) {
+      const workDir = createWorkspace(tasks);
+      // Each shard only caches the project it ran tasks of
+      const project = tasks[0]?.target.split(":")[0] ?? "";
+      const projectGraph = { nodes: [{ id: project, source: project, config: { owners: { defaultOwner: owner } } }] };
+      fs.writeFileSync(path.join(workDir, ".moon/cache/states/partialProjectGraph.json"), JSON.stringify(projectGraph));
+      fs.cpSync(workDir, path.join(reportsDir, `moon-report-${name}`), { recursive: true });
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+    baselineDir = createWorkspace([{ target: "web:test" }, { target: "api:lint", status: "passed" }]);
+
+    github = await startFakeGitHub();
+    result = await runAction(reportsDir, {
+      ...github.env,
+      INPUT_MODE: "aggregate",
+      "INPUT_COMMENT-MODE": "single",
+      "INPUT_AGGREGATE-REPORTS": reportsDir,
+      "INPUT_REPORT-ARTIFACT": "moon-report",
+      "INPUT_MENTION-OWNERS": "true",
+      "INPUT_BASELINE-REPORT": path.join(baselineDir, ".moon/cache/ciReport.json"),
+    });
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(reportsDir, { recursive: true, force: true });
+    fs.rmSync(baselineDir, { recursive: true, force: true });
+  });
+
+  test("compares the failures of every shard against the baseline", () => {
+    expect(readOutput(result.output, "has-new-failures")).toBe("true");
+    expect(github.createdComments[0]).toContain(
+      "| `web:test` | `shard-1` | Task web:test failed. | :repeat: pre-existing |",
+    );
+    expect(github.createdComments[0]).toContain("| `api:lint` | `shard-2` | Task api:lint failed. | :new: new |");
+  });
+
+  test("mentions the owners found in the cache of each shard", () => {
+    expect(github.createdComments[0]).toContain("**Owners:** @web-team");
+    expect(github.createdComments[0]).toContain("**Owners:** @api-team");
+  });
+});
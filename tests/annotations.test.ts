@@ -0,0 +1,70 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, runAction } from "./helpers";
+
+const stderr = `
+src/index.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.
+src/index.ts:4:1 - error TS2304: Cannot find name 'foo'.
+
+src/lint.ts
+   1:7   error    'unused' is assigned a value but never used  no-unused-vars
+  12:3   warning  Unexpected console statement                  no-console
+
+✖ 2 problems (1 error, 1 warning)
+
+src/format.ts:2:5 lint/style/useConst  FIXABLE  ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  ✖ This let declares a variable that is only assigned once.
+
+error[E0308]: mismatched types
+  --> src/main.rs:4:5
+   |
+error: could not compile \`app\` due to previous error
+
+vet: ./main.go:10:2: fmt.Printf format %d has arg x of wrong type string
+native/lib.c:8:3: warning: implicit declaration of function 'bar'
+native/lib.c:8:3: note: include the header
+tests/test_app.py:12: AssertionError
+`;
+
+describe("diagnostics as annotations", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = createWorkspace([{ target: "app:check", stderr }]);
+    fs.writeFileSync(
+      path.join(workDir, ".moon/cache/states/projectsBuildData.json"),
+      JSON.stringify({ app: { source: "packages/app" } }),
+    );
+    fs.mkdirSync(path.join(workDir, "packages/app/src"), { recursive: true });
+    fs.writeFileSync(path.join(workDir, "packages/app/src/index.ts"), "");
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function annotations(stdout: string): string[] {
+    return stdout.split("\n").filter((line) => /^::(error|warning) /.test(line));
+  }
+
+  test("annotates diagnostics from common tools relative to the project", async () => {
+    const { stdout } = await runAction(workDir, { "INPUT_MAX-ANNOTATIONS": "50" });
+
+    expect(annotations(stdout)).toMatchSnapshot();
+  });
+
+  test("caps the number of annotations", async () => {
+    const { stdout } = await runAction(workDir, { "INPUT_MAX-ANNOTATIONS": "2" });
+
+    expect(annotations(stdout)).toHaveLength(2);
+    expect(stdout).toContain("7 more diagnostics were found but not annotated.");
+  });
+
+  test("annotations can be disabled", async () => {
+    const { stdout } = await runAction(workDir, { "INPUT_MAX-ANNOTATIONS": "0" });
+
+    expect(annotations(stdout)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,63 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { type ActionResult, type FakeGitHub, runAction, runTaskAction, startFakeGitHub } from "./helpers";
+
+const failuresWorkspace = path.join(import.meta.dirname, "workspaces/failures");
+
+describe("baseline comparison", () => {
+  let github: FakeGitHub;
+  let tempDir: string;
+  let result: ActionResult;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "baseline-test-"));
+    const baselinePath = path.join(tempDir, "ciReport.json");
+    fs.writeFileSync(
+      baselinePath,
+      JSON.stringify({
+        actions: [
+          runTaskAction({ target: "c:bar", status: "failed" }, 1),
+          runTaskAction({ target: "a:make-error", status: "failed" }, 2),
+          runTaskAction({ target: "b:make-error", status: "passed" }, 3),
+        ],
+      }),
+    );
+
+    github = await startFakeGitHub();
+    result = await runAction(failuresWorkspace, { ...github.env, "INPUT_BASELINE-REPORT": baselinePath });
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("step summary classifies failures and lists fixed tasks", () => {
+    expect(result.summary).toMatchSnapshot();
+  });
+
+  test("comment headers show the class of the failure", () => {
+    expect(github.createdComments.find((comment) => comment.includes("a:make-error"))).toContain(
+      "## :x: `a:make-error` (:repeat: pre-existing)",
+    );
+    expect(github.createdComments.find((comment) => comment.includes("b:make-error"))).toContain(
+      "## :x: `b:make-error` (:new: new)",
+    );
+  });
+
+  test("has-new-failures is true", () => {
+    expect(result.output).toMatch(/has-new-failures<<.*\ntrue\n/);
+  });
+});
+
+test("missing baseline artifact warns and compares nothing", async () => {
+  const github = await startFakeGitHub();
+  const result = await runAction(failuresWorkspace, { ...github.env, "INPUT_BASELINE-REPORT": "moon-ci-report" });
+  await github.close();
+
+  expect(result.exitCode).toBe(0);
+  expect(result.stdout).toContain("No baseline artifact named moon-ci-report found");
+  expect(result.summary).not.toContain("Baseline");
+});
@@ -0,0 +1,75 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, readOutput, runAction } from "./helpers";
+
+function operation(type: string, status = "passed") {
+  return {
+    duration: { secs: 0, nanos: 1000 },
+    finishedAt: "2024-07-14T09:03:50.573102100",
+    meta: { type },
+    startedAt: "2024-07-14T09:03:50.557735407",
+    status,
+  };
+}
+
+const ran = [operation("hash-generation"), operation("task-execution"), operation("archive-creation")];
+
+describe("cache statistics", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = createWorkspace([
+      { target: "app:build", status: "passed", action: { duration: { secs: 3, nanos: 0 }, operations: ran } },
+      {
+        target: "app:lint",
+        status: "cached",
+        action: {
+          duration: { secs: 0, nanos: 50_000_000 },
+          operations: [operation("hash-generation"), operation("output-hydration")],
+        },
+      },
+      {
+        target: "api:build",
+        status: "passed",
+        action: {
+          duration: { secs: 0, nanos: 200_000_000 },
+          operations: [operation("hash-generation"), operation("output-hydration", "cached-from-remote")],
+        },
+      },
+      { target: "api:dev", status: "passed", action: { operations: [operation("task-execution")] } },
+    ]);
+
+    const baseline = { targets: [{ target: "app:lint", hit: null, duration: 20_050, lastRunDuration: 20_050 }] };
+    fs.writeFileSync(path.join(workDir, "baseline.json"), JSON.stringify(baseline));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("cache-stats output", async () => {
+    const { output } = await runAction(workDir, { "INPUT_CACHE-STATS-BASELINE": path.join(workDir, "baseline.json") });
+    const stats = JSON.parse(readOutput(output, "cache-stats") ?? "{}");
+
+    expect(stats).toMatchObject({
+      hits: 2,
+      misses: 1,
+      localHits: 1,
+      remoteHits: 1,
+      timeSaved: 20_000,
+      projects: { app: { hits: 1, misses: 1, hitRate: 0.5 }, api: { hits: 1, misses: 0, hitRate: 1 } },
+      tasks: { build: { hits: 1, misses: 1 }, lint: { hits: 1, misses: 0 } },
+    });
+    expect(stats.targets.map(({ target }: { target: string }) => target)).not.toContain("api:dev");
+  });
+
+  test("step summary section", async () => {
+    const { summary } = await runAction(workDir, {
+      "INPUT_SUMMARY-DETAIL": "full",
+      "INPUT_CACHE-STATS-BASELINE": path.join(workDir, "baseline.json"),
+    });
+
+    expect(summary.slice(summary.indexOf("## :zap:"))).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,139 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeGitHub, runAction, startFakeGitHub } from "./helpers";
+
+describe("check runs", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      {
+        target: "app:typecheck",
+        error: "Task app:typecheck failed to run.",
+        stderr: [
+          "src/index.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+          ...Array.from({ length: 59 }, (_, index) => `src/index.ts(${index + 4},1): error TS2304: Cannot find name.`),
+        ].join("\n"),
+      },
+      { target: "app:lint", status: "passed" },
+      { target: "api:test", status: "passed" },
+      { target: "api:build", status: "skipped" },
+    ]);
+    fs.mkdirSync(path.join(workDir, "src"));
+    fs.writeFileSync(path.join(workDir, "src/index.ts"), "");
+
+    github = await startFakeGitHub();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe("per project", () => {
+    beforeEach(async () => {
+      await runAction(workDir, {
+        ...github.env,
+        "INPUT_CHECK-RUNS": "project",
+        GITHUB_WORKSPACE: workDir,
+        GITHUB_SHA: "0123456789abcdef",
+      });
+    });
+
+    test("creates a completed check run for every project", () => {
+      expect(github.checkRuns.map(({ name, conclusion }) => [name, conclusion])).toEqual([
+        ["moon ci / app", "failure"],
+        ["moon ci / api", "cancelled"],
+      ]);
+      expect(github.checkRuns[0]).toMatchObject({ head_sha: "0123456789abcdef", status: "completed" });
+    });
+
+    test("uses the error as the title and the logs as the text", () => {
+      const output = github.checkRuns[0]?.output;
+
+      expect(output?.title).toBe("Task app:typecheck failed to run.");
+      expect(output?.summary).toBe("- `app:typecheck` :x: failed\n- `app:lint` :white_check_mark: passed");
+      expect(output?.text).toContain("### `app:typecheck`");
+      expect(output?.text).toContain("error TS2322");
+    });
+
+    test("annotates diagnostics, 50 per request", () => {
+      expect(github.checkRuns[0]?.output.annotations).toHaveLength(50);
+      expect(github.checkRuns[0]?.output.annotations[0]).toEqual({
+        path: "src/index.ts",
+        start_line: 3,
+        end_line: 3,
+        start_column: 7,
+        end_column: 7,
+        annotation_level: "failure",
+        title: "app:typecheck",
+        message: "TS2322: Type 'string' is not assignable to type 'number'.",
+      });
+      expect(github.checkRunUpdates).toHaveLength(1);
+      expect(github.checkRunUpdates[0]?.id).toBe(2001);
+      expect(github.checkRunUpdates[0]?.body.output.annotations).toHaveLength(10);
+    });
+  });
+
+  test("creates a check run for every target", async () => {
+    await runAction(workDir, { ...github.env, "INPUT_CHECK-RUNS": "target", GITHUB_WORKSPACE: workDir });
+
+    expect(github.checkRuns.map(({ name, conclusion, output }) => [name, conclusion, output.title])).toEqual([
+      ["moon ci / app:typecheck", "failure", "Task app:typecheck failed to run."],
+      ["moon ci / app:lint", "success", "Task passed"],
+      ["moon ci / api:test", "success", "Task passed"],
+      ["moon ci / api:build", "cancelled", "Task didn't finish"],
+    ]);
+  });
+
+  test("creates the other check runs when one fails", async () => {
+    const failing = await startFakeGitHub({
+      errors: [{ method: "POST", path: "/check-runs", status: 422, message: "Invalid output" }],
+    });
+
+    try {
+      const result = await runAction(workDir, {
+        ...failing.env,
+        "INPUT_CHECK-RUNS": "project",
+        GITHUB_WORKSPACE: workDir,
+      });
+
+      expect(failing.checkRuns.map(({ name }) => name)).toEqual(["moon ci / api"]);
+      expect(result.stdout).toContain("Failed to create check run moon ci / app");
+    } finally {
+      await failing.close();
+    }
+  });
+
+  test("fits many large failures in the text of a check run", async () => {
+    const bigLog = Array.from({ length: 4000 }, (_, i) => `line ${i + 1}: ${"x".repeat(20)} some build output here`);
+    const large = createWorkspace(
+      Array.from({ length: 20 }, (_, index) => ({
+        target: `app:task-${index}`,
+        error: `Task app:task-${index} failed: ${"e".repeat(4000)}`,
+        stderr: [...bigLog, `FINAL ERROR ${index}`].join("\n"),
+      })),
+    );
+
+    try {
+      await runAction(large, { ...github.env, "INPUT_CHECK-RUNS": "project" });
+
+      // The errors alone take up more than the limit, so the last failures are left out
+      const text = github.checkRuns[0]?.output.text ?? "";
+      expect(text.length).toBeLessThanOrEqual(65535);
+      expect(text).toContain("### `app:task-0`");
+      expect(text).toContain("FINAL ERROR 0");
+      expect(text).toMatch(/_The logs of \d+ more failures are left out to fit the check run size limit\._$/);
+    } finally {
+      fs.rmSync(large, { recursive: true, force: true });
+    }
+  });
+
+  test("creates no check runs by default", async () => {
+    await runAction(workDir, github.env);
+
+    expect(github.checkRuns).toHaveLength(0);
+  });
+});
@@ -0,0 +1,85 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, runCli } from "./helpers";
+
+describe("cli", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = createWorkspace([
+      {
+        target: "app:test",
+        error: "Task app:test failed to run.",
+        stdout: "running tests",
+        stderr: "\u001b[31mFAIL\u001b[0m src/app.test.ts",
+      },
+      { target: "app:lint", status: "passed" },
+    ]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("prints failures with the colours of the logs and exits with 1", async () => {
+    const { exitCode, stdout } = await runCli(workDir);
+
+    expect(exitCode).toBe(1);
+    expect(stdout).toMatchSnapshot();
+  });
+
+  test("markdown format", async () => {
+    const { stdout } = await runCli(workDir, ["--format", "markdown"]);
+
+    expect(stdout).toMatchSnapshot();
+  });
+
+  test("json format", async () => {
+    const { stdout } = await runCli(workDir, ["--format", "json"]);
+    const { failures, flakyTasks } = JSON.parse(stdout);
+
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toMatchObject({ target: "app:test", error: "Task app:test failed to run.", baseline: null });
+    expect(flakyTasks).toEqual([]);
+  });
+
+  test("junit format written to a file", async () => {
+    const { stdout } = await runCli(process.cwd(), [
+      "--workspace-root",
+      workDir,
+      "--format",
+      "junit",
+      "--output",
+      path.join(workDir, "out/moon.xml"),
+    ]);
+
+    expect(stdout).toBe("");
+    expect(fs.readFileSync(path.join(workDir, "out/moon.xml"), "utf8")).toContain(
+      '<testsuite name="app" tests="2" failures="1" skipped="0"',
+    );
+  });
+
+  test("exits with 0 without failures", async () => {
+    const passingDir = createWorkspace([{ target: "app:lint", status: "passed" }]);
+    const { exitCode, stdout } = await runCli(passingDir);
+    fs.rmSync(passingDir, { recursive: true, force: true });
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe("No failing tasks found.");
+  });
+
+  test("rejects unknown formats", async () => {
+    const { exitCode, stderr } = await runCli(workDir, ["--format", "html"]);
+
+    expect(exitCode).toBe(2);
+    expect(stderr).toBe('Invalid --format "html", expected one of: markdown, json, text, junit.');
+  });
+
+  test("fails without a run report", async () => {
+    const { exitCode, stderr } = await runCli(path.resolve("tests/workspaces/no-report"));
+
+    expect(exitCode).toBe(2);
+    expect(stderr).toContain("Run report does not exist");
+  });
+});
@@ -0,0 +1,151 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { type ActionResult, createWorkspace, type FakeGitHub, runAction, startFakeGitHub, stripDebug } from "./helpers";
+
+const failuresWorkspace = path.join(import.meta.dirname, "workspaces/failures");
+
+describe("single comment mode", () => {
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    github = await startFakeGitHub({
+      comments: [
+        { id: 100, body: "<!-- moon-ci-booster-all-summary -->\nold summary" },
+        { id: 101, body: "<!-- moon-ci-booster-all-c:make-error -->\nold per-task comment" },
+      ],
+    });
+    await runAction(failuresWorkspace, { ...github.env, "INPUT_COMMENT-MODE": "single" });
+  });
+
+  afterEach(async () => {
+    await github.close();
+  });
+
+  test("updates the aggregated comment in place", () => {
+    expect(github.createdComments).toHaveLength(0);
+    expect(github.updatedComments.map(({ id }) => id)).toEqual([100]);
+  });
+
+  test("removes per-task comments left over from before", () => {
+    expect(github.deletedCommentIds).toEqual([101]);
+  });
+
+  test("comment text matches snapshot", () => {
+    expect(github.updatedComments[0]?.body).toMatchSnapshot();
+  });
+});
+
+describe("single comment mode with large output", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+
+  beforeEach(async () => {
+    const bigLog = Array.from({ length: 5000 }, (_, i) => `line ${i + 1}: ${"x".repeat(20)} some build output here`);
+
+    workDir = createWorkspace([
+      { target: "big:one", stderr: [...bigLog, "FINAL ERROR ONE"].join("\n") },
+      { target: "big:two", stderr: [...bigLog, "FINAL ERROR TWO"].join("\n") },
+      { target: "small:fail", stderr: "small but complete error" },
+    ]);
+
+    github = await startFakeGitHub();
+    await runAction(workDir, { ...github.env, "INPUT_COMMENT-MODE": "single" });
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("shrinks every target's logs to fit within the size limit", () => {
+    expect(github.createdComments).toHaveLength(1);
+    const comment = github.createdComments[0] as string;
+
+    expect(comment.length).toBeLessThanOrEqual(65536);
+    expect(comment).toContain("small but complete error");
+    expect(comment).toContain("FINAL ERROR ONE");
+    expect(comment).toContain("FINAL ERROR TWO");
+    expect(comment).toContain("</details>\n\n</details>\n");
+  });
+
+  test("large logs get an even share", () => {
+    const comment = github.createdComments[0] as string;
+    const [, one = "", two = ""] = comment.split("<details><summary><strong><code>");
+
+    expect(Math.abs(one.length - two.length)).toBeLessThan(100);
+  });
+});
+
+describe("single comment mode with a large target table", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+
+  const run = async (count: number) => {
+    workDir = createWorkspace(
+      Array.from({ length: count }, (_, i) => ({
+        target: `package-${i}:test`,
+        error: `Process exited with code ${i}: ${"the test runner reported failing assertions ".repeat(2)}`,
+        stderr: `FAIL package-${i}\n${"y".repeat(2000)}`,
+      })),
+    );
+    await runAction(workDir, { ...github.env, "INPUT_COMMENT-MODE": "single" });
+    return github.createdComments[0] as string;
+  };
+
+  beforeEach(async () => {
+    github = await startFakeGitHub();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("leaves out the sections that don't fit instead of cutting off the comment", async () => {
+    const comment = await run(300);
+
+    expect(comment.length).toBeLessThanOrEqual(65536);
+    expect(comment).not.toMatch(/comment size limits\.\n$/);
+    expect(comment).toContain("| `package-299:test` |");
+    expect(comment).toContain("<code>package-0:test</code>");
+    expect(comment).toMatch(/\n_The logs of \d+ more failures are left out to fit the comment size limit\._\n$/);
+  });
+
+  test("shortens the table when it doesn't fit on its own", async () => {
+    const comment = await run(700);
+
+    expect(comment.length).toBeLessThanOrEqual(65536);
+    expect(comment).not.toContain("<details>");
+    expect(comment).toMatch(/\| …and \d+ more \| {2}\|\n/);
+    expect(comment).toMatch(/\n_The logs of 700 more failures are left out to fit the comment size limit\._\n$/);
+  });
+});
+
+describe("no comment mode", () => {
+  let github: FakeGitHub;
+  let result: ActionResult;
+
+  beforeEach(async () => {
+    github = await startFakeGitHub({ comments: [{ id: 100, body: "<!-- moon-ci-booster-all-c:make-error -->" }] });
+    result = await runAction(failuresWorkspace, { ...github.env, "INPUT_COMMENT-MODE": "none" });
+  });
+
+  afterEach(async () => {
+    await github.close();
+  });
+
+  test("does not touch pull request comments", () => {
+    expect(github.createdComments).toHaveLength(0);
+    expect(github.updatedComments).toHaveLength(0);
+    expect(github.deletedCommentIds).toHaveLength(0);
+    expect(result.output).toMatch(/comment-created<<.*\nfalse\n/);
+  });
+});
+
+test("invalid comment mode fails the action", async () => {
+  const result = await runAction(failuresWorkspace, { "INPUT_COMMENT-MODE": "bogus" });
+
+  expect(result.exitCode).toBe(1);
+  expect(stripDebug(result.stdout)).toContain('Invalid `comment-mode` input "bogus"');
+});
@@ -0,0 +1,176 @@
+import * as fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+  type ActionResult,
+  createWorkspace,
+  type FakeComment,
+  type FakeGitHub,
+  runAction,
+  startFakeGitHub,
+  stripDebug,
+} from "./helpers";
+
+function unrelatedComments(count: number): FakeComment[] {
+  return Array.from({ length: count }, (_, index) => ({ id: index + 1, body: `review comment ${index + 1}` }));
+}
+
+describe("comment sync", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+  let result: ActionResult;
+
+  beforeEach(() => {
+    workDir = createWorkspace([{ target: "web:test", stderr: "FAIL src/app.test.ts" }]);
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe("on a busy pull request", () => {
+    beforeEach(async () => {
+      github = await startFakeGitHub({
+        comments: [
+          ...unrelatedComments(150),
+          { id: 500, body: "<!-- moon-ci-booster-all-web:test -->\nprevious failure" },
+          ...unrelatedComments(60),
+          { id: 501, body: "<!-- moon-ci-booster-all-api:lint -->\nstale failure" },
+        ],
+      });
+      await runAction(workDir, github.env);
+    });
+
+    test("reads every page of comments", () => {
+      expect(
+        github.requests.filter((request) => request === "GET /repos/test-owner/test-repo/issues/42/comments"),
+      ).toHaveLength(3);
+    });
+
+    test("updates the existing comment instead of creating a duplicate", () => {
+      expect(github.createdComments).toHaveLength(0);
+      expect(github.updatedComments.map(({ id }) => id)).toEqual([500]);
+    });
+
+    test("removes stale comments past the first page", () => {
+      expect(github.deletedCommentIds).toEqual([501]);
+    });
+  });
+
+  describe("when a comment hasn't changed", () => {
+    beforeEach(async () => {
+      github = await startFakeGitHub();
+      await runAction(workDir, github.env);
+      const [body = ""] = github.createdComments;
+      await github.close();
+
+      github = await startFakeGitHub({ comments: [{ id: 500, body }] });
+      await runAction(workDir, github.env);
+    });
+
+    test("doesn't write it again", () => {
+      expect(github.createdComments).toHaveLength(0);
+      expect(github.updatedComments).toHaveLength(0);
+    });
+  });
+
+  describe("with duplicate comments", () => {
+    beforeEach(async () => {
+      github = await startFakeGitHub({
+        comments: [
+          { id: 500, body: "<!-- moon-ci-booster-all-web:test -->\nprevious failure" },
+          { id: 501, body: "<!-- moon-ci-booster-all-web:test -->\nduplicate of the previous failure" },
+        ],
+      });
+      await runAction(workDir, github.env);
+    });
+
+    test("keeps the first one and deletes the rest", () => {
+      expect(github.updatedComments.map(({ id }) => id)).toEqual([500]);
+      expect(github.deletedCommentIds).toEqual([501]);
+    });
+  });
+
+  describe("with many stale comments", () => {
+    beforeEach(async () => {
+      github = await startFakeGitHub({
+        comments: Array.from({ length: 12 }, (_, index) => ({
+          id: 600 + index,
+          body: `<!-- moon-ci-booster-all-gone:task-${index} -->\nstale failure`,
+        })),
+      });
+      result = await runAction(workDir, github.env);
+    });
+
+    test("pauses between batches of writes", () => {
+      expect(github.deletedCommentIds).toHaveLength(12);
+      expect(result.stdout).toContain("::debug::Pausing 1000ms after 10 comment writes");
+    });
+  });
+
+  describe("when rate limited", () => {
+    test("retries after the time asked for by a 429", async () => {
+      github = await startFakeGitHub({
+        errors: [{ method: "POST", path: "/issues/42/comments", status: 429, headers: { "retry-after": "0" } }],
+      });
+      result = await runAction(workDir, github.env);
+
+      expect(github.requests.filter((request) => request.startsWith("POST"))).toHaveLength(2);
+      expect(github.createdComments).toHaveLength(1);
+      expect(stripDebug(result.stdout)).toContain("Rate limited while creating comment for web:test, retrying in 0s");
+    });
+
+    test("retries on secondary rate limits", async () => {
+      github = await startFakeGitHub({
+        comments: [{ id: 501, body: "<!-- moon-ci-booster-all-api:lint -->\nstale failure" }],
+        errors: [
+          {
+            method: "DELETE",
+            path: "/issues/comments/501",
+            status: 403,
+            message: "You have exceeded a secondary rate limit. Please wait a few minutes before you try again.",
+          },
+        ],
+      });
+      result = await runAction(workDir, github.env);
+
+      expect(github.deletedCommentIds).toEqual([501]);
+      expect(result.stdout).toContain("Rate limited while deleting stale comment #501 for api:lint, retrying in 1s");
+    });
+
+    test("retries listing comments", async () => {
+      github = await startFakeGitHub({
+        comments: [{ id: 500, body: "<!-- moon-ci-booster-all-web:test -->\nprevious failure" }],
+        errors: [
+          {
+            method: "GET",
+            path: "/issues/42/comments",
+            status: 403,
+            headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(Math.floor(Date.now() / 1000)) },
+          },
+        ],
+      });
+      result = await runAction(workDir, github.env);
+
+      expect(github.createdComments).toHaveLength(0);
+      expect(github.updatedComments.map(({ id }) => id)).toEqual([500]);
+    });
+
+    test("doesn't retry when missing permissions", async () => {
+      github = await startFakeGitHub({
+        errors: [
+          {
+            method: "POST",
+            path: "/issues/42/comments",
+            status: 403,
+            message: "Resource not accessible by integration",
+          },
+        ],
+      });
+      result = await runAction(workDir, github.env);
+
+      expect(github.requests.filter((request) => request.startsWith("POST"))).toHaveLength(1);
+      expect(result.output).toMatch(/comment-created<<.*\nfalse\n/);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeGitHub, readOutput, runAction, startFakeGitHub } from "./helpers";
+
+function duration(millis: number) {
+  return { secs: Math.floor(millis / 1000), nanos: (millis % 1000) * 1_000_000 };
+}
+
+describe("duration regressions", () => {
+  let workDir: string;
+  let historyPath: string;
+
+  beforeEach(() => {
+    workDir = createWorkspace([
+      { target: "app:test", status: "passed", action: { duration: duration(30_000) } },
+      { target: "app:lint", status: "passed", action: { duration: duration(3_000) } },
+      { target: "app:build", status: "passed", action: { duration: duration(62_000) } },
+      { target: "api:test", status: "cached", action: { duration: duration(90_000) } },
+      { target: "api:new", status: "passed", action: { duration: duration(1_000) } },
+    ]);
+
+    historyPath = path.join(workDir, "durations.json");
+    fs.writeFileSync(
+      historyPath,
+      JSON.stringify({
+        version: 1,
+        targets: {
+          "app:test": [10_000, 12_000, 11_000],
+          "app:lint": [1_000],
+          "app:build": [60_000, 61_000],
+          "api:test": [1_000],
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("flags tasks that got slower than either threshold", async () => {
+    const { summary, output } = await runAction(workDir, { "INPUT_DURATION-HISTORY": historyPath });
+
+    expect(summary).toMatchSnapshot();
+    expect(JSON.parse(readOutput(output, "duration-regressions") ?? "[]")).toEqual([
+      { target: "app:test", duration: 30_000, median: 11_000 },
+      { target: "app:lint", duration: 3_000, median: 1_000 },
+    ]);
+  });
+
+  test("records durations of tasks that ran", async () => {
+    await runAction(workDir, { "INPUT_DURATION-HISTORY": historyPath });
+
+    expect(JSON.parse(fs.readFileSync(historyPath, "utf8")).targets).toEqual({
+      "app:test": [10_000, 12_000, 11_000, 30_000],
+      "app:lint": [1_000, 3_000],
+      "app:build": [60_000, 61_000, 62_000],
+      "api:test": [1_000],
+      "api:new": [1_000],
+    });
+  });
+
+  test("thresholds are configurable", async () => {
+    const { output } = await runAction(workDir, {
+      "INPUT_DURATION-HISTORY": historyPath,
+      "INPUT_REGRESSION-THRESHOLD-PERCENT": "0",
+      "INPUT_REGRESSION-THRESHOLD-MS": "1000",
+    });
+    const regressions = JSON.parse(readOutput(output, "duration-regressions") ?? "[]");
+
+    expect(regressions.map(({ target }: { target: string }) => target)).toEqual(["app:test", "app:lint", "app:build"]);
+  });
+
+  test("only compares tasks that took no time in milliseconds", async () => {
+    fs.writeFileSync(historyPath, JSON.stringify({ version: 1, targets: { "app:lint": [0, 0], "app:test": [0] } }));
+    const { summary, output } = await runAction(workDir, {
+      "INPUT_DURATION-HISTORY": historyPath,
+      "INPUT_REGRESSION-THRESHOLD-MS": "10000",
+    });
+
+    expect(JSON.parse(readOutput(output, "duration-regressions") ?? "[]")).toEqual([
+      { target: "app:test", duration: 30_000, median: 0 },
+    ]);
+    expect(summary).toContain("| `app:test` | 30.0s | 0ms | +30.0s |");
+    expect(summary).not.toContain("Infinity");
+  });
+
+  test("warning annotations", async () => {
+    const { stdout } = await runAction(workDir, {
+      "INPUT_DURATION-HISTORY": historyPath,
+      "INPUT_REGRESSION-NOTIFY": "warning",
+    });
+
+    expect(stdout).toContain("::warning title=Performance regression::app:test took 30.0s, up from a median of 11.0s.");
+  });
+
+  describe("as a comment", () => {
+    let github: FakeGitHub;
+
+    beforeEach(async () => {
+      github = await startFakeGitHub();
+      await runAction(workDir, {
+        ...github.env,
+        "INPUT_DURATION-HISTORY": historyPath,
+        "INPUT_REGRESSION-NOTIFY": "comment",
+      });
+    });
+
+    afterEach(async () => {
+      await github.close();
+    });
+
+    test("posts a comment listing regressions", () => {
+      expect(github.createdComments).toHaveLength(1);
+      expect(github.createdComments[0]).toContain("<!-- moon-ci-booster-all-regressions -->");
+      expect(github.createdComments[0]).toContain("| `app:test` | 30.0s | 11.0s | +19.0s (+173%) |");
+    });
+  });
+});
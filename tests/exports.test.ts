@@ -0,0 +1,98 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, readOutput, runAction } from "./helpers";
+
+describe("report exports", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = createWorkspace([
+      {
+        target: "app:typecheck",
+        error: "Task app:typecheck failed to run.",
+        stdout: "Checking <app> & friends",
+        stderr: "src/index.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+      },
+      { target: "app:lint", status: "passed", stdout: "\u001b[32mAll good\u001b[0m" },
+      { target: "api:test", status: "skipped" },
+    ]);
+    fs.mkdirSync(path.join(workDir, "src"));
+    fs.writeFileSync(path.join(workDir, "src/index.ts"), "");
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("writes a JUnit XML report", async () => {
+    const { output } = await runAction(workDir, { "INPUT_JUNIT-REPORT": "reports/moon.xml" });
+    const junitPath = readOutput(output, "junit-report-path");
+
+    expect(junitPath).toBe(path.join(fs.realpathSync(workDir), "reports/moon.xml"));
+    expect(fs.readFileSync(junitPath as string, "utf8")).toMatchSnapshot();
+  });
+
+  test("masks secrets in the JUnit XML report", async () => {
+    const token = `ghp_${"a1B2c3D4e5".repeat(4)}`;
+    const secretDir = createWorkspace([
+      {
+        target: "web:publish",
+        error: "Process npm failed, NPM_TOKEN=npm-registry-secret-42",
+        stdout: "NPM_TOKEN=npm-registry-secret-42",
+        stderr: `Authorization: token ${token}`,
+        action: {
+          node: { action: "run-task", params: { env: { NPM_TOKEN: "npm-registry-secret-42" }, target: "web:publish" } },
+        },
+      },
+    ]);
+
+    try {
+      const { output } = await runAction(secretDir, { "INPUT_JUNIT-REPORT": "moon.xml" });
+      const junit = fs.readFileSync(readOutput(output, "junit-report-path") as string, "utf8");
+
+      expect(junit).not.toContain("npm-registry-secret-42");
+      expect(junit).not.toContain(token);
+      expect(junit).toContain('<failure message="Process npm failed, NPM_TOKEN=***"');
+    } finally {
+      fs.rmSync(secretDir, { recursive: true, force: true });
+    }
+  });
+
+  test("reports timeouts as failures and allowed failures as passing", async () => {
+    const categoriesDir = createWorkspace([
+      { target: "web:e2e", status: "timed-out" },
+      { target: "web:lint", action: { allowFailure: true } },
+      { target: "web:build", status: "aborted", error: null },
+    ]);
+
+    try {
+      const { output } = await runAction(categoriesDir, { "INPUT_JUNIT-REPORT": "moon.xml" });
+      const junit = fs.readFileSync(readOutput(output, "junit-report-path") as string, "utf8");
+
+      expect(junit).toContain('<testsuite name="web" tests="3" failures="1" skipped="1"');
+      expect(junit).toContain('<failure message="Task web:e2e failed." type="timed-out">');
+      expect(junit).toContain('<property name="allowed-failure" value="true"/>');
+      expect(junit).not.toContain("Task web:lint failed.");
+    } finally {
+      fs.rmSync(categoriesDir, { recursive: true, force: true });
+    }
+  });
+
+  test("writes a SARIF report of diagnostics", async () => {
+    const { output } = await runAction(workDir, {
+      "INPUT_SARIF-REPORT": "moon.sarif",
+      GITHUB_WORKSPACE: workDir,
+    });
+    const sarif = JSON.parse(fs.readFileSync(readOutput(output, "sarif-report-path") as string, "utf8"));
+
+    expect(sarif).toMatchSnapshot();
+  });
+
+  test("writes nothing by default", async () => {
+    const { output } = await runAction(workDir);
+
+    expect(readOutput(output, "junit-report-path")).toBeUndefined();
+    expect(readOutput(output, "sarif-report-path")).toBeUndefined();
+  });
+});
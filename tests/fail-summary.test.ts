@@ -149,24 +149,19 @@ describe("per-task PR comments", () => {
     server.close();
   });
 
-  test("creates one comment per failing task", () => {
-    expect(createdComments).toHaveLength(3);
+  test("creates one comment per distinct failure", () => {
+    expect(createdComments).toHaveLength(2);
+    expect(createdComments[0]).toContain("**Same failure in:** `a:make-error`");
   });
 
   test("each comment contains the correct comment token", () => {
-    expect(createdComments[0]).toContain("<!-- moon-ci-booster-c:make-error -->");
-    expect(createdComments[1]).toContain("<!-- moon-ci-booster-b:make-error -->");
-    expect(createdComments[2]).toContain("<!-- moon-ci-booster-a:make-error -->");
+    expect(createdComments[0]).toContain("<!-- moon-ci-booster-all-c:make-error -->");
+    expect(createdComments[1]).toContain("<!-- moon-ci-booster-all-b:make-error -->");
   });
 
-  test("comments contain stderr but not stdout", () => {
-    for (const comment of createdComments) {
-      if (comment.includes("b:make-error")) {
-        expect(comment).toContain("something went wrong in project b");
-        expect(comment).not.toContain("Starting build");
-        expect(comment).not.toContain("Compiling module B");
-      }
-    }
+  test("comments contain stderr followed by stdout", () => {
+    expect(createdComments[1]).toContain("<summary><strong>stderr + stdout</strong></summary>");
+    expect(createdComments[1]).toContain("something went wrong in project b\nStarting build...\nCompiling module B...");
   });
 
   test("comment text matches snapshot", () => {
@@ -193,8 +188,8 @@ describe("stale comment deletion", () => {
       } else if (req.url?.includes("/issues/42/comments") && req.method === "GET") {
         res.end(
           JSON.stringify([
-            { id: 100, body: "<!-- moon-ci-booster-c:make-error -->\nold failure" },
-            { id: 101, body: "<!-- moon-ci-booster-old:gone-task -->\nstale failure" },
+            { id: 100, body: "<!-- moon-ci-booster-all-c:make-error -->\nold failure" },
+            { id: 101, body: "<!-- moon-ci-booster-all-old:gone-task -->\nstale failure" },
             { id: 102, body: "unrelated comment" },
           ]),
         );
@@ -0,0 +1,120 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeGitHub, runAction, startFakeGitHub } from "./helpers";
+
+const entry = (target: string, status: "passed" | "failed", branch: string, commit = "1111111aaaaaaa") => ({
+  target,
+  status,
+  duration: 1000,
+  fingerprint: status === "failed" ? "0123456789ab" : null,
+  commit,
+  branch,
+});
+
+describe("failure history", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+  let historyPath: string;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      { target: "web:test", stderr: "FAIL src/app.test.ts" },
+      { target: "web:lint", status: "passed" },
+      { target: "api:test", status: "cached" },
+    ]);
+
+    historyPath = path.join(workDir, "history/failures.ndjson");
+    fs.mkdirSync(path.dirname(historyPath));
+    fs.writeFileSync(
+      historyPath,
+      [
+        entry("web:test", "failed", "main", "2222222bbbbbbb"),
+        entry("web:test", "passed", "main"),
+        entry("web:test", "failed", "feature"),
+        entry("web:test", "passed", "feature"),
+        entry("web:lint", "failed", "other"),
+        entry("api:test", "failed", "main"),
+        entry("api:test", "failed", "main", "3333333ccccccc"),
+      ]
+        .map((line) => JSON.stringify(line))
+        .join("\n")
+        .concat("\nnot json\n"),
+    );
+
+    github = await startFakeGitHub();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const run = () =>
+    runAction(workDir, {
+      ...github.env,
+      "INPUT_FAILURE-HISTORY": historyPath,
+      GITHUB_HEAD_REF: "feature",
+      GITHUB_SHA: "4444444ddddddd",
+    });
+
+  test("tells how often the target failed on the branch and on the default branch", async () => {
+    await run();
+
+    expect(github.createdComments[0]).toContain(
+      "**History:** Failed 2 of the last 3 runs on `feature`, and 1 of the last 2 runs on `main`.",
+    );
+  });
+
+  test("lists the top failing targets in the step summary", async () => {
+    const { summary } = await run();
+
+    expect(summary).toContain(
+      [
+        "| Target | Failed | Runs | Failure rate | Last failure |",
+        "| --- | --- | --- | --- | --- |",
+        "| `web:test` | 3 | 5 | 60% | `4444444` on `feature` |",
+        "| `api:test` | 2 | 2 | 100% | `3333333` on `main` |",
+        "| `web:lint` | 1 | 2 | 50% | `1111111` on `other` |",
+      ].join("\n"),
+    );
+  });
+
+  test("records the tasks that ran", async () => {
+    await run();
+
+    const lines = fs.readFileSync(historyPath, "utf8").trim().split("\n");
+    expect(lines).toHaveLength(9);
+    expect(JSON.parse(lines[7] ?? "")).toEqual({
+      target: "web:test",
+      status: "failed",
+      duration: 0,
+      fingerprint: expect.stringMatching(/^[0-9a-f]{12}$/),
+      commit: "4444444ddddddd",
+      branch: "feature",
+    });
+    expect(JSON.parse(lines[8] ?? "")).toMatchObject({ target: "web:lint", status: "passed", fingerprint: null });
+  });
+});
+
+test("records timeouts as failed runs and leaves allowed failures out", async () => {
+  const workDir = createWorkspace([
+    { target: "web:e2e", status: "timed-out" },
+    { target: "web:lint", stderr: "lint warnings", action: { allowFailure: true } },
+    { target: "api:build", status: "aborted", error: null },
+  ]);
+  const historyPath = path.join(workDir, "failures.ndjson");
+
+  try {
+    await runAction(workDir, { "INPUT_FAILURE-HISTORY": historyPath, GITHUB_REF_NAME: "main" });
+
+    const entries = fs
+      .readFileSync(historyPath, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(entries).toMatchObject([{ target: "web:e2e", status: "failed" }]);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,99 @@
+import * as fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { type ActionResult, createWorkspace, type FakeGitHub, readOutput, runAction, startFakeGitHub } from "./helpers";
+
+const tsconfigError = (root: string, time: string, duration: string, hash: string) =>
+  [
+    `\u001b[90m[${time}]\u001b[0m Building with cache ${hash}`,
+    `${root}/tsconfig.base.json(4,5): \u001b[31merror TS5024\u001b[0m: Compiler option 'strict' requires a value of type boolean.`,
+    `Found 1 error in ${duration}.`,
+  ].join("\n");
+
+describe("failure fingerprints", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+  let result: ActionResult;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      {
+        target: "web:typecheck",
+        stderr: tsconfigError("/home/runner/work/repo", "2024-07-14T09:03:50.544Z", "1.2s", "9f86d081884c7d65"),
+      },
+      { target: "api:lint", stderr: "src/routes.ts:3:1 lint/style/useConst" },
+      {
+        target: "api:typecheck",
+        stderr: tsconfigError("/builds/group/repo", "2024-07-14T09:04:12.003Z", "850ms", "2c26b46b68ffc68f"),
+      },
+      {
+        target: "cli:typecheck",
+        stderr: tsconfigError("C:\\actions\\repo", "09:05:01", "2.03s", "fcde2b2edba56bf4"),
+      },
+    ]);
+    github = await startFakeGitHub();
+    result = await runAction(workDir, github.env);
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("posts one comment per distinct failure, listing every target", () => {
+    expect(github.createdComments).toHaveLength(2);
+    expect(github.createdComments[0]).toContain("## :x: `web:typecheck`");
+    expect(github.createdComments[0]).toContain("**Same failure in:** `api:typecheck`, `cli:typecheck`");
+    expect(github.createdComments[1]).not.toContain("**Same failure in:**");
+  });
+
+  test("lists the targets of a group in a single row of the summary", () => {
+    expect(result.summary).toContain("**4 tasks failed** with 2 distinct errors");
+    expect(result.summary).toContain(
+      "| `web:typecheck`<br>`api:typecheck`<br>`cli:typecheck` | Task web:typecheck failed. |",
+    );
+  });
+
+  test("outputs the fingerprints with their targets", () => {
+    const fingerprints = JSON.parse(readOutput(result.output, "failure-fingerprints") ?? "[]");
+
+    expect(fingerprints).toHaveLength(2);
+    expect(fingerprints[0].targets).toEqual(["web:typecheck", "api:typecheck", "cli:typecheck"]);
+    expect(fingerprints[0].fingerprint).toMatch(/^[0-9a-f]{12}$/);
+    expect(fingerprints[1].targets).toEqual(["api:lint"]);
+  });
+});
+
+describe("comments of targets sharing a fingerprint", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      { target: "web:typecheck", stderr: tsconfigError("/repo", "09:03:50", "1.2s", "9f86d081884c7d65") },
+      { target: "api:typecheck", stderr: tsconfigError("/repo", "09:04:12", "850ms", "2c26b46b68ffc68f") },
+    ]);
+    github = await startFakeGitHub({
+      comments: [{ id: 100, node_id: "IC_100", body: "<!-- moon-ci-booster-all-api:typecheck -->\nprevious failure" }],
+    });
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test.each(["edit-resolved", "delete", "minimize"])(
+    "keeps the comment of a target failing in another comment with %s",
+    async (strategy) => {
+      await runAction(workDir, { ...github.env, "INPUT_STALE-COMMENT-STRATEGY": strategy, GITHUB_SHA: "deadbeef" });
+
+      expect(github.createdComments).toHaveLength(1);
+      expect(github.createdComments[0]).toContain("**Same failure in:** `api:typecheck`");
+      expect(github.updatedComments).toHaveLength(0);
+      expect(github.deletedCommentIds).toHaveLength(0);
+      expect(github.graphqlRequests.map(({ query }) => query)).not.toContainEqual(
+        expect.stringContaining("minimizeComment("),
+      );
+    },
+  );
+});
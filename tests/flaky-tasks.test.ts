@@ -0,0 +1,75 @@
+import * as fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { type ActionResult, createWorkspace, type FakeGitHub, runAction, startFakeGitHub } from "./helpers";
+
+function execution(status: string, millis: number, stderr: string | null = null) {
+  return {
+    duration: { secs: Math.floor(millis / 1000), nanos: (millis % 1000) * 1_000_000 },
+    finishedAt: "2024-07-14T09:03:50.573102100",
+    meta: { type: "task-execution", command: "vitest run", exitCode: status === "passed" ? 0 : 1, stderr },
+    startedAt: "2024-07-14T09:03:50.557735407",
+    status,
+  };
+}
+
+describe("flaky tasks", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+  let result: ActionResult;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      {
+        target: "web:test",
+        status: "passed",
+        action: {
+          operations: [
+            execution("failed", 1500, "\u001b[31mFAIL\u001b[0m src/clock.test.ts > ticks\nTimeout of 1000ms exceeded"),
+            execution("failed", 1200, "FAIL src/clock.test.ts > ticks\nTimeout of 1000ms exceeded"),
+            execution("passed", 900),
+          ],
+        },
+      },
+      { target: "api:test", status: "passed", action: { flaky: true, operations: [execution("passed", 300)] } },
+      { target: "api:build", status: "passed", action: { operations: [execution("passed", 300)] } },
+    ]);
+
+    github = await startFakeGitHub();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe("by default", () => {
+    beforeEach(async () => {
+      result = await runAction(workDir, github.env);
+    });
+
+    test("step summary lists flaky tasks with their attempts", () => {
+      expect(result.summary).toMatchSnapshot();
+    });
+
+    test("has-failures is false", () => {
+      expect(result.output).toMatch(/has-failures<<.*\nfalse\n/);
+    });
+
+    test("does not comment", () => {
+      expect(github.createdComments).toHaveLength(0);
+    });
+  });
+
+  describe("with flaky-comment", () => {
+    beforeEach(async () => {
+      result = await runAction(workDir, { ...github.env, "INPUT_FLAKY-COMMENT": "true" });
+    });
+
+    test("posts a comment listing flaky tasks", () => {
+      expect(github.createdComments).toHaveLength(1);
+      expect(github.createdComments[0]).toContain("<!-- moon-ci-booster-all-flaky -->");
+      expect(github.createdComments[0]).toContain("| `web:test` | 3 |");
+      expect(github.createdComments[0]).not.toContain("api:build");
+    });
+  });
+});
@@ -0,0 +1,482 @@
+import * as fs from "node:fs";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { $ } from "execa";
+
+const indexJs = path.resolve("dist/index.js");
+const cliJs = path.resolve("dist/cli/index.js");
+
+export function stripDebug(output: string): string {
+  return output
+    .split("\n")
+    .filter((line) => !line.startsWith("::debug::"))
+    .join("\n");
+}
+
+export interface ActionResult {
+  exitCode: number | undefined;
+  stdout: string;
+  summary: string;
+  output: string;
+}
+
+/** Runs the bundled action in `cwd`, with `env` layered on top of a minimal GitHub Actions environment. */
+export async function runAction(cwd: string, env: Record<string, string> = {}): Promise<ActionResult> {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "run-action-"));
+  const summaryFile = path.join(tempDir, "summary.md");
+  const outputFile = path.join(tempDir, "output.txt");
+  fs.writeFileSync(summaryFile, "");
+  fs.writeFileSync(outputFile, "");
+
+  try {
+    const result = await $({
+      cwd,
+      reject: false,
+      env: {
+        ...process.env,
+        "INPUT_ACCESS-TOKEN": "fake-token-for-tests",
+        "INPUT_WORKSPACE-ROOT": "",
+        GITHUB_STEP_SUMMARY: summaryFile,
+        GITHUB_OUTPUT: outputFile,
+        GITHUB_WORKSPACE: "",
+        GITHUB_REPOSITORY: "",
+        ...env,
+      },
+    })`node ${indexJs}`;
+
+    return {
+      exitCode: result.exitCode,
+      stdout: result.stdout,
+      summary: fs.readFileSync(summaryFile, "utf8"),
+      output: fs.readFileSync(outputFile, "utf8"),
+    };
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/** Runs the bundled CLI with the given arguments in `cwd`. */
+export async function runCli(cwd: string, args: string[] = [], env: Record<string, string> = {}) {
+  const result = await $({ cwd, reject: false, env: { ...process.env, ...env } })`node ${cliJs} ${args}`;
+  return { exitCode: result.exitCode, stdout: result.stdout, stderr: result.stderr };
+}
+
+/** Reads a single `name<<delimiter` block from a `GITHUB_OUTPUT` file. */
+export function readOutput(output: string, name: string): string | undefined {
+  const match = output.match(new RegExp(`^${name}<<(.+)\\n([\\s\\S]*?)\\n\\1$`, "m"));
+  return match?.[2];
+}
+
+// --- Fake workspaces ---
+
+export interface FakeTask {
+  target: string;
+  status?: string;
+  error?: string | null;
+  stdout?: string;
+  stderr?: string;
+  /** Fields of the action to override, e.g. its duration or operations. */
+  action?: Record<string, unknown>;
+}
+
+export function runTaskAction(task: FakeTask, nodeIndex: number) {
+  const status = task.status ?? "failed";
+
+  return {
+    allowFailure: false,
+    createdAt: "2024-07-14T09:03:50.544893399",
+    duration: { secs: 0, nanos: 100000 },
+    error: task.error !== undefined ? task.error : status === "failed" ? `Task ${task.target} failed.` : null,
+    finishedAt: "2024-07-14T09:03:50.545018275",
+    flaky: false,
+    label: `RunTask(${task.target})`,
+    node: {
+      action: "run-task",
+      params: {
+        args: [],
+        env: {},
+        interactive: false,
+        persistent: false,
+        runtime: { platform: "system", requirement: null, overridden: false },
+        target: task.target,
+        timeout: null,
+        id: 0,
+      },
+    },
+    nodeIndex,
+    operations: [],
+    startedAt: "2024-07-14T09:03:50.544950983",
+    status,
+    ...task.action,
+  };
+}
+
+/** Creates a temporary moon workspace with a CI report and state logs for the given tasks. */
+export function createWorkspace(tasks: FakeTask[]): string {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "workspace-"));
+
+  for (const task of tasks) {
+    const [project, taskId] = task.target.split(":");
+    const statesDir = path.join(workDir, ".moon/cache/states", project ?? "", taskId ?? "");
+    fs.mkdirSync(statesDir, { recursive: true });
+    fs.writeFileSync(path.join(statesDir, "stdout.log"), task.stdout ?? "");
+    fs.writeFileSync(path.join(statesDir, "stderr.log"), task.stderr ?? "");
+  }
+
+  const ciReport = {
+    actions: tasks.map((task, index) => runTaskAction(task, index + 1)),
+    context: {
+      affectedOnly: false,
+      initialTargets: [],
+      passthroughArgs: [],
+      primaryTargets: tasks.map((task) => task.target),
+      profile: null,
+      targetStates: {},
+      touchedFiles: [],
+    },
+    duration: { secs: 0, nanos: 100000 },
+  };
+  fs.writeFileSync(path.join(workDir, ".moon/cache/ciReport.json"), JSON.stringify(ciReport));
+
+  return workDir;
+}
+
+// --- Fake GitHub API ---
+
+export interface FakeComment {
+  id: number;
+  node_id?: string;
+  body: string;
+  /** Whether the comment is hidden, as reported by the GraphQL `isMinimized` field. */
+  minimized?: boolean;
+}
+
+/** Response sent instead of handling the next request matching `method` and `path`, e.g. to simulate rate limits. */
+export interface FakeErrorResponse {
+  method: string;
+  path: string;
+  status: number;
+  headers?: Record<string, string>;
+  message?: string;
+}
+
+/** Body of a request setting a commit status, the commit being part of the path. */
+export interface FakeCommitStatus {
+  state: string;
+  context: string;
+  description: string;
+}
+
+export interface FakeCheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  start_column?: number;
+  end_column?: number;
+  annotation_level: string;
+  title?: string;
+  message: string;
+}
+
+/** Body of a request creating a check run, of which updates only send the output. */
+export interface FakeCheckRun {
+  name: string;
+  head_sha: string;
+  status: string;
+  conclusion: string;
+  output: { title: string; summary: string; text?: string; annotations: FakeCheckRunAnnotation[] };
+}
+
+export interface FakeGitHub {
+  env: Record<string, string>;
+  /** Method and path of every request received, including the ones answered with an error. */
+  requests: string[];
+  createdComments: string[];
+  updatedComments: FakeComment[];
+  deletedCommentIds: number[];
+  commitStatuses: FakeCommitStatus[];
+  graphqlRequests: Array<{ query: string; variables: Record<string, unknown> }>;
+  checkRuns: FakeCheckRun[];
+  checkRunUpdates: Array<{ id: number; body: Pick<FakeCheckRun, "output"> }>;
+  addedLabels: string[];
+  removedLabels: string[];
+  close(): Promise<void>;
+}
+
+/** Starts a local HTTP server that answers the GitHub REST calls made by the action. */
+export async function startFakeGitHub({
+  prNumber = 42,
+  comments = [],
+  labels = [],
+  errors = [],
+}: {
+  prNumber?: number;
+  comments?: FakeComment[];
+  /** Names of the labels on the pull request. */
+  labels?: string[];
+  errors?: FakeErrorResponse[];
+} = {}): Promise<FakeGitHub> {
+  const pendingErrors = [...errors];
+  const fake: Omit<FakeGitHub, "env" | "close"> = {
+    requests: [],
+    createdComments: [],
+    updatedComments: [],
+    deletedCommentIds: [],
+    commitStatuses: [],
+    graphqlRequests: [],
+    checkRuns: [],
+    checkRunUpdates: [],
+    addedLabels: [],
+    removedLabels: [],
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      const url = req.url ?? "";
+      const { pathname, searchParams } = new URL(url, "http://localhost");
+      fake.requests.push(`${req.method} ${pathname}`);
+
+      const errorIndex = pendingErrors.findIndex(
+        (error) => error.method === req.method && pathname.includes(error.path),
+      );
+      const [error] = errorIndex >= 0 ? pendingErrors.splice(errorIndex, 1) : [];
+      if (error) {
+        res.writeHead(error.status, { "Content-Type": "application/json", ...error.headers });
+        res.end(JSON.stringify({ message: error.message ?? "Error" }));
+        return;
+      }
+
+      if (url.includes(`/issues/${prNumber}/comments`) && req.method === "GET") {
+        // Pages like the GitHub API, which returns 30 comments unless asked for more
+        const perPage = Number(searchParams.get("per_page") ?? 30);
+        const page = Number(searchParams.get("page") ?? 1);
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (page * perPage < comments.length) {
+          headers.Link = `<http://${req.headers.host}${pathname}?per_page=${perPage}&page=${page + 1}>; rel="next"`;
+        }
+        res.writeHead(200, headers);
+        res.end(JSON.stringify(comments.slice((page - 1) * perPage, page * perPage)));
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      if (url.includes("/commits/") && url.includes("/pulls")) {
+        res.end(JSON.stringify([{ number: prNumber }]));
+      } else if (url.includes(`/issues/${prNumber}/comments`) && req.method === "POST") {
+        fake.createdComments.push(JSON.parse(body).body);
+        res.end(JSON.stringify({ id: 1000 + fake.createdComments.length }));
+      } else if (url.includes("/issues/comments/") && req.method === "PATCH") {
+        const id = Number(url.match(/\/issues\/comments\/(\d+)/)?.[1]);
+        fake.updatedComments.push({ id, body: JSON.parse(body).body });
+        res.end(JSON.stringify({ id }));
+      } else if (url.includes("/issues/comments/") && req.method === "DELETE") {
+        fake.deletedCommentIds.push(Number(url.match(/\/issues\/comments\/(\d+)/)?.[1]));
+        res.end(JSON.stringify({}));
+      } else if (url.includes(`/issues/${prNumber}/labels`) && req.method === "GET") {
+        res.end(JSON.stringify(labels.map((name) => ({ name }))));
+      } else if (url.includes(`/issues/${prNumber}/labels`) && req.method === "POST") {
+        fake.addedLabels.push(...JSON.parse(body).labels);
+        res.end(JSON.stringify([]));
+      } else if (url.includes(`/issues/${prNumber}/labels/`) && req.method === "DELETE") {
+        fake.removedLabels.push(decodeURIComponent(pathname.split("/").pop() ?? ""));
+        res.end(JSON.stringify([]));
+      } else if (url.endsWith("/graphql")) {
+        const { query, variables } = JSON.parse(body);
+        fake.graphqlRequests.push({ query, variables });
+        if (query.includes("nodes(ids:")) {
+          const nodes = comments
+            .filter(({ node_id }) => node_id && variables.ids.includes(node_id))
+            .map(({ node_id, minimized = false }) => ({ id: node_id, isMinimized: minimized }));
+          res.end(JSON.stringify({ data: { nodes } }));
+          return;
+        }
+        res.end(JSON.stringify({ data: {} }));
+      } else if (url.endsWith("/check-runs") && req.method === "POST") {
+        fake.checkRuns.push(JSON.parse(body));
+        res.end(JSON.stringify({ id: 2000 + fake.checkRuns.length }));
+      } else if (url.includes("/check-runs/") && req.method === "PATCH") {
+        const id = Number(url.match(/\/check-runs\/(\d+)/)?.[1]);
+        fake.checkRunUpdates.push({ id, body: JSON.parse(body) });
+        res.end(JSON.stringify({ id }));
+      } else if (url.includes("/statuses/") && req.method === "POST") {
+        fake.commitStatuses.push(JSON.parse(body));
+        res.end(JSON.stringify({}));
+      } else if (url.includes("/actions/artifacts")) {
+        res.end(JSON.stringify({ total_count: 0, artifacts: [] }));
+      } else {
+        res.end(JSON.stringify([]));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    ...fake,
+    env: { GITHUB_REPOSITORY: "test-owner/test-repo", GITHUB_API_URL: `http://127.0.0.1:${port}` },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+// --- Fake GitLab and Bitbucket APIs ---
+
+export interface FakeNote {
+  id: number;
+  body: string;
+  /** GitLab notes posted by GitLab itself, e.g. when commits are pushed. */
+  system?: boolean;
+}
+
+export interface FakeReviewPlatform {
+  env: Record<string, string>;
+  /** Method and path of every request received. */
+  requests: string[];
+  /** `PRIVATE-TOKEN` or `Authorization` header of the requests. */
+  credentials: string[];
+  createdNotes: string[];
+  updatedNotes: FakeNote[];
+  deletedNoteIds: number[];
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a local HTTP server that answers the merge request note calls of the GitLab API, or the pull request comment
+ * calls of the Bitbucket API, one note per page to exercise pagination.
+ */
+export async function startFakeReviewPlatform(
+  platform: "gitlab" | "bitbucket",
+  { changeRequest = 7, notes = [] }: { changeRequest?: number; notes?: FakeNote[] } = {},
+): Promise<FakeReviewPlatform> {
+  const fake: Omit<FakeReviewPlatform, "env" | "close"> = {
+    requests: [],
+    credentials: [],
+    createdNotes: [],
+    updatedNotes: [],
+    deletedNoteIds: [],
+  };
+  const notesPath =
+    platform === "gitlab"
+      ? `/api/v4/projects/123/merge_requests/${changeRequest}/notes`
+      : `/2.0/repositories/test-workspace/test-repo/pullrequests/${changeRequest}/comments`;
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      const { pathname, searchParams } = new URL(req.url ?? "", "http://localhost");
+      fake.requests.push(`${req.method} ${pathname}`);
+      fake.credentials.push(String(req.headers["private-token"] ?? req.headers.authorization));
+      const noteId = Number(pathname.slice(notesPath.length + 1));
+
+      res.setHeader("Content-Type", "application/json");
+      if (pathname.endsWith("/merge_requests") || pathname.endsWith("/pullrequests")) {
+        // Change requests of the commit, for pipelines that didn't run for one
+        res.end(JSON.stringify(platform === "gitlab" ? [{ iid: changeRequest }] : { values: [{ id: changeRequest }] }));
+      } else if (pathname === notesPath && req.method === "GET") {
+        const page = Number(searchParams.get("page") ?? 1);
+        const values = notes.slice(page - 1, page);
+        if (platform === "gitlab") {
+          res.setHeader("x-next-page", page < notes.length ? String(page + 1) : "");
+          res.end(JSON.stringify(values.map(({ id, body, system = false }) => ({ id, body, system }))));
+        } else {
+          const next = page < notes.length ? `http://${req.headers.host}${pathname}?page=${page + 1}` : undefined;
+          res.end(JSON.stringify({ values: values.map(({ id, body }) => ({ id, content: { raw: body } })), next }));
+        }
+      } else if (pathname === notesPath && req.method === "POST") {
+        const parsed = JSON.parse(body);
+        fake.createdNotes.push(platform === "gitlab" ? parsed.body : parsed.content.raw);
+        res.end(JSON.stringify({ id: 1000 + fake.createdNotes.length }));
+      } else if (pathname.startsWith(`${notesPath}/`) && req.method === "PUT") {
+        const parsed = JSON.parse(body);
+        fake.updatedNotes.push({ id: noteId, body: platform === "gitlab" ? parsed.body : parsed.content.raw });
+        res.end(JSON.stringify({ id: noteId }));
+      } else if (pathname.startsWith(`${notesPath}/`) && req.method === "DELETE") {
+        fake.deletedNoteIds.push(noteId);
+        res.writeHead(204);
+        res.end();
+      } else {
+        res.writeHead(404);
+        res.end(JSON.stringify({ message: "404 Not Found" }));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    ...fake,
+    env:
+      platform === "gitlab"
+        ? {
+            CI_API_V4_URL: `${url}/api/v4`,
+            CI_PROJECT_ID: "123",
+            CI_MERGE_REQUEST_IID: String(changeRequest),
+            CI_COMMIT_SHA: "0123456789abcdef",
+          }
+        : {
+            BITBUCKET_API_URL: `${url}/2.0`,
+            BITBUCKET_WORKSPACE: "test-workspace",
+            BITBUCKET_REPO_SLUG: "test-repo",
+            BITBUCKET_PR_ID: String(changeRequest),
+            BITBUCKET_COMMIT: "0123456789abcdef",
+          },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+// --- Fake webhook ---
+
+export interface FakeWebhook {
+  url: string;
+  /** Parsed body of every request received, including the ones answered with an error, shaped by the format. */
+  payloads: unknown[];
+  close(): Promise<void>;
+}
+
+/** Starts a local HTTP server that accepts webhook payloads, answering the first requests with the given statuses. */
+export async function startFakeWebhook({
+  failures = [],
+  retryAfter,
+}: {
+  failures?: number[];
+  /** `Retry-After` header of the failed responses. */
+  retryAfter?: string;
+} = {}): Promise<FakeWebhook> {
+  const pendingFailures = [...failures];
+  const fake: Omit<FakeWebhook, "url" | "close"> = { payloads: [] };
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      fake.payloads.push(JSON.parse(body));
+
+      const status = pendingFailures.shift();
+      res.writeHead(status ?? 200, {
+        "Content-Type": "text/plain",
+        ...(status && retryAfter !== undefined && { "Retry-After": retryAfter }),
+      });
+      res.end(status ? "unavailable" : "ok");
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    ...fake,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/secret`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
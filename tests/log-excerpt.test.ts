@@ -0,0 +1,74 @@
+import * as fs from "node:fs";
+import { afterEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeGitHub, runAction, startFakeGitHub } from "./helpers";
+
+function noise(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}: ${"x".repeat(40)} doing things`);
+}
+
+describe("log excerpts for large output", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  async function commentFor(stderr: string, env: Record<string, string> = {}): Promise<string> {
+    workDir = createWorkspace([{ target: "app:typecheck", stderr }]);
+    github = await startFakeGitHub();
+    await runAction(workDir, { ...github.env, ...env });
+
+    expect(github.createdComments).toHaveLength(1);
+    const comment = github.createdComments[0] as string;
+    expect(comment.length).toBeLessThanOrEqual(65536);
+    return comment;
+  }
+
+  test("keeps error lines from the middle of the log with context", async () => {
+    const comment = await commentFor(
+      [
+        ...noise("setup", 1000),
+        "src/index.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+        ...noise("teardown", 1000),
+      ].join("\n"),
+    );
+
+    expect(comment).toContain("error TS2322: Type 'string' is not assignable to type 'number'.");
+    expect(comment).toContain("setup 1000:");
+    expect(comment).toContain("teardown 5:");
+    expect(comment).not.toContain("teardown 6:");
+    expect(comment).toContain("… 995 lines omitted …");
+    expect(comment).toContain("Output was truncated");
+  });
+
+  test("custom error patterns and context lines", async () => {
+    const comment = await commentFor(
+      [...noise("setup", 1000), "Assertion failed: widgets != 3", ...noise("teardown", 1000)].join("\n"),
+      { "INPUT_ERROR-PATTERNS": "^Assertion failed", "INPUT_LOG-CONTEXT-LINES": "1" },
+    );
+
+    expect(comment).not.toContain("setup 999:");
+    expect(comment).toContain("… 999 lines omitted …\nsetup 1000:");
+    expect(comment).toContain("Assertion failed: widgets != 3\nteardown 1:");
+    expect(comment).not.toContain("teardown 2:");
+  });
+
+  test("falls back to the head and tail when nothing looks like an error", async () => {
+    const comment = await commentFor(noise("build", 3000).join("\n"));
+
+    expect(comment).toContain("build 1:");
+    expect(comment).toContain("build 3000:");
+    expect(comment).not.toContain("build 1500:");
+  });
+});
+
+test("invalid error patterns fail the action", async () => {
+  const workDir = createWorkspace([{ target: "app:build" }]);
+  const result = await runAction(workDir, { "INPUT_ERROR-PATTERNS": "(unclosed" });
+  fs.rmSync(workDir, { recursive: true, force: true });
+
+  expect(result.exitCode).toBe(1);
+  expect(result.stdout).toContain('Invalid `error-patterns` input "(unclosed"');
+});
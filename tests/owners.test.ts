@@ -0,0 +1,97 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeGitHub, runAction, startFakeGitHub } from "./helpers";
+
+describe("project owners", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      { target: "web:test", stderr: "FAIL src/app.test.ts" },
+      { target: "api:lint", stderr: "lint failed" },
+      { target: "docs:build", stderr: "build failed" },
+      { target: "shared:test", status: "passed" },
+      { target: "shared:lint", status: "cached" },
+      { target: "other:test", status: "skipped", error: null },
+      { target: "other:lint", status: "passed" },
+    ]);
+
+    const projectGraph = {
+      nodes: [
+        { id: "web", source: "apps/web" },
+        { id: "api", source: "apps/api" },
+        { id: "docs", source: "docs", config: { owners: { defaultOwner: "@docs-team", paths: ["**/*.md"] } } },
+        { id: "shared", source: "packages/shared" },
+      ],
+    };
+    fs.writeFileSync(path.join(workDir, ".moon/cache/states/partialProjectGraph.json"), JSON.stringify(projectGraph));
+
+    fs.mkdirSync(path.join(workDir, "apps/api"), { recursive: true });
+    fs.writeFileSync(
+      path.join(workDir, "apps/api/moon.yml"),
+      "language: typescript\nowners:\n  defaultOwner: '@api-team' # reviews every change\n",
+    );
+    fs.mkdirSync(path.join(workDir, ".github"));
+    fs.writeFileSync(
+      path.join(workDir, ".github/CODEOWNERS"),
+      [
+        "# Fallback",
+        "* @org/platform",
+        "",
+        "/apps/web/ @org/web alice@example.com @alice",
+        "docs/ @org/writers",
+        "*.md",
+      ].join("\n"),
+    );
+
+    github = await startFakeGitHub({ labels: ["ci-failed:shared", "ci-failed:other", "bug"] });
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe("with mention-owners", () => {
+    beforeEach(async () => {
+      await runAction(workDir, { ...github.env, "INPUT_MENTION-OWNERS": "true", GITHUB_WORKSPACE: workDir });
+    });
+
+    test("mentions the code owners of the project", () => {
+      const comment = github.createdComments.find((body) => body.includes("`web:test`"));
+      expect(comment).toContain("**Owners:** @org/web @alice\n");
+    });
+
+    test("mentions the default owner from moon.yml before the code owners", () => {
+      const comment = github.createdComments.find((body) => body.includes("`api:lint`"));
+      expect(comment).toContain("**Owners:** @api-team @org/platform");
+    });
+
+    test("mentions the default owner from the project graph", () => {
+      const comment = github.createdComments.find((body) => body.includes("`docs:build`"));
+      expect(comment).toContain("**Owners:** @docs-team @org/writers");
+    });
+  });
+
+  test("doesn't mention owners by default", async () => {
+    await runAction(workDir, { ...github.env, GITHUB_WORKSPACE: workDir });
+
+    expect(github.createdComments.join("\n")).not.toContain("**Owners:**");
+  });
+
+  describe("with failure-label", () => {
+    beforeEach(async () => {
+      await runAction(workDir, { ...github.env, "INPUT_FAILURE-LABEL": "ci-failed:{project}" });
+    });
+
+    test("labels the pull request with every failing project", () => {
+      expect(github.addedLabels).toEqual(["ci-failed:web", "ci-failed:api", "ci-failed:docs"]);
+    });
+
+    test("removes the labels of projects that passed, keeping the ones that didn't run or were skipped", () => {
+      expect(github.removedLabels).toEqual(["ci-failed:shared"]);
+    });
+  });
+});
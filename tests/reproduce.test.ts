@@ -0,0 +1,96 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeGitHub, runAction, startFakeGitHub } from "./helpers";
+
+describe("reproduction instructions", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      {
+        target: "web:test",
+        stderr: "FAIL src/app.test.ts",
+        action: {
+          node: {
+            action: "run-task",
+            params: {
+              args: [],
+              env: {},
+              runtime: { platform: "node", requirement: { Toolchain: "20.11.0" }, overridden: false },
+              target: "web:test",
+            },
+          },
+        },
+      },
+      { target: "api:lint", stderr: "lint failed" },
+    ]);
+
+    const reportPath = path.join(workDir, ".moon/cache/ciReport.json");
+    const report = JSON.parse(fs.readFileSync(reportPath, "utf8"));
+    report.context = {
+      ...report.context,
+      affectedOnly: true,
+      profile: "cpu",
+      passthroughArgs: ["--grep", "renders the app", "-u"],
+      touchedFiles: ["apps/web/src/app.ts", "apps/api/src/routes.ts", "apps/web/package.json", "README.md"],
+    };
+    fs.writeFileSync(reportPath, JSON.stringify(report));
+
+    const projectGraph = {
+      nodes: [
+        { id: "web", source: "apps/web" },
+        { id: "api", source: "apps/api" },
+      ],
+    };
+    fs.writeFileSync(path.join(workDir, ".moon/cache/states/partialProjectGraph.json"), JSON.stringify(projectGraph));
+
+    github = await startFakeGitHub();
+    await runAction(workDir, github.env);
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const commentOf = (target: string) => github.createdComments.find((body) => body.includes(`\`${target}\``)) ?? "";
+
+  test("adds the moon command with the options of the run", () => {
+    expect(commentOf("web:test")).toContain(
+      "```sh\nmoon run web:test --affected --profile cpu -- --grep 'renders the app' -u\n```",
+    );
+  });
+
+  test("names the toolchain of the task", () => {
+    expect(commentOf("web:test")).toContain("**Toolchain:** node 20.11.0");
+    expect(commentOf("api:lint")).not.toContain("**Toolchain:**");
+  });
+
+  test("lists the touched files inside the project", () => {
+    expect(commentOf("web:test")).toContain(
+      "**Touched files in the project:**\n\n- `apps/web/package.json`\n- `apps/web/src/app.ts`",
+    );
+    expect(commentOf("api:lint")).toContain("**Touched files in the project:**\n\n- `apps/api/src/routes.ts`\n");
+  });
+
+  test("masks secrets in the passthrough arguments", async () => {
+    const token = `ghp_${"a1B2c3D4e5".repeat(4)}`;
+    const reportPath = path.join(workDir, ".moon/cache/ciReport.json");
+    const report = JSON.parse(fs.readFileSync(reportPath, "utf8"));
+    report.context.passthroughArgs = ["--token", token];
+    fs.writeFileSync(reportPath, JSON.stringify(report));
+
+    const secretGitHub = await startFakeGitHub();
+    try {
+      await runAction(workDir, secretGitHub.env);
+    } finally {
+      await secretGitHub.close();
+    }
+
+    const comment = secretGitHub.createdComments.find((body) => body.includes("`web:test`")) ?? "";
+    expect(comment).toContain("moon run web:test --affected --profile cpu -- --token ***");
+    expect(comment).not.toContain(token);
+  });
+});
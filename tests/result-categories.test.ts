@@ -0,0 +1,104 @@
+import * as fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+  type ActionResult,
+  createWorkspace,
+  type FakeGitHub,
+  readOutput,
+  runAction,
+  runTaskAction,
+  startFakeGitHub,
+} from "./helpers";
+
+const withTimeout = (target: string, timeout: number) => ({
+  node: { ...runTaskAction({ target }, 0).node, params: { ...runTaskAction({ target }, 0).node.params, timeout } },
+});
+
+describe("result categories", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+  let result: ActionResult;
+
+  const run = async (tasks: Parameters<typeof createWorkspace>[0]) => {
+    workDir = createWorkspace(tasks);
+    result = await runAction(workDir, github.env);
+  };
+
+  beforeEach(async () => {
+    github = await startFakeGitHub();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe("with every category", () => {
+    beforeEach(async () => {
+      await run([
+        { target: "web:test", stderr: "FAIL src/app.test.ts" },
+        { target: "web:lint", stderr: "lint warnings", action: { allowFailure: true } },
+        {
+          target: "api:e2e",
+          stderr: "Waiting for server",
+          action: { ...withTimeout("api:e2e", 300), duration: { secs: 300, nanos: 5000000 } },
+        },
+        { target: "api:build", status: "aborted", error: null, action: { duration: { secs: 12, nanos: 0 } } },
+      ]);
+    });
+
+    test("outputs the targets of each category", () => {
+      expect(JSON.parse(readOutput(result.output, "failed-targets") ?? "")).toEqual(["web:test"]);
+      expect(JSON.parse(readOutput(result.output, "allowed-failures") ?? "")).toEqual([
+        { target: "web:lint", error: "Task web:lint failed." },
+      ]);
+      expect(JSON.parse(readOutput(result.output, "timeouts") ?? "")).toEqual([
+        { target: "api:e2e", timeout: 300000, duration: 300005 },
+      ]);
+      expect(JSON.parse(readOutput(result.output, "aborted-targets") ?? "")).toEqual(["api:build"]);
+    });
+
+    test("summarizes each category in its own section", () => {
+      expect(result.summary).toContain("**2 tasks failed**");
+      expect(result.summary).toContain(
+        ["| Target | Timeout | Duration |", "| --- | --- | --- |", "| `api:e2e` | 5m 0s | 5m 0s |"].join("\n"),
+      );
+      expect(result.summary).toContain("## :warning: Allowed Failures");
+      expect(result.summary).toContain("<details><summary><strong><code>web:lint</code>");
+      expect(result.summary).toContain("lint warnings");
+      expect(result.summary).toContain(
+        ["## :stop_sign: Aborted", "", "**1 task was aborted** before it finished"].join("\n"),
+      );
+      expect(result.summary).toContain("- `api:build` after 12.0s");
+    });
+
+    test("comments on failures and timeouts only", () => {
+      expect(github.createdComments).toHaveLength(2);
+      expect(github.createdComments.join("\n")).not.toContain("web:lint");
+      expect(github.createdComments[1]).toContain(":hourglass: **Timed out** after 5m 0s, the timeout is 5m 0s.");
+    });
+
+    test("warns about allowed failures", () => {
+      expect(result.stdout).toContain("::warning title=Allowed failure::web:lint failed, but is allowed to fail.");
+    });
+  });
+
+  test("doesn't count allowed failures as failures", async () => {
+    await run([
+      { target: "web:lint", action: { allowFailure: true } },
+      { target: "web:test", status: "passed" },
+    ]);
+
+    expect(readOutput(result.output, "has-failures")).toBe("false");
+    expect(github.createdComments).toHaveLength(0);
+  });
+
+  test("treats tasks moon reports as timed out as timeouts", async () => {
+    await run([{ target: "web:test", status: "timed-out", action: withTimeout("web:test", 60) }]);
+
+    expect(readOutput(result.output, "has-failures")).toBe("true");
+    expect(JSON.parse(readOutput(result.output, "timeouts") ?? "")).toEqual([
+      { target: "web:test", timeout: 60000, duration: 0 },
+    ]);
+  });
+});
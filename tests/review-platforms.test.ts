@@ -0,0 +1,97 @@
+import * as fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeReviewPlatform, runAction, startFakeReviewPlatform } from "./helpers";
+
+const existingNotes = [
+  { id: 100, body: "<!-- moon-ci-booster-all-web:test -->\nprevious failure" },
+  { id: 101, body: "<!-- moon-ci-booster-all-api:lint -->\n\n## :x: `api:lint`\n\nlint failed" },
+  { id: 102, body: "unrelated comment" },
+];
+
+describe.each(["gitlab", "bitbucket"] as const)("%s", (platform) => {
+  let fake: FakeReviewPlatform;
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      { target: "web:test", stderr: "FAIL src/app.test.ts" },
+      { target: "web:lint", stderr: "lint failed" },
+    ]);
+    fake = await startFakeReviewPlatform(platform, { notes: existingNotes });
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("creates, updates and deletes notes by their marker", async () => {
+    await runAction(workDir, fake.env);
+
+    expect(fake.createdNotes).toHaveLength(1);
+    expect(fake.createdNotes[0]).toContain("<!-- moon-ci-booster-all-web:lint -->");
+    expect(fake.updatedNotes.map(({ id }) => id)).toEqual([100]);
+    expect(fake.updatedNotes[0]?.body).toContain("FAIL src/app.test.ts");
+    expect(fake.deletedNoteIds).toEqual([101]);
+  });
+
+  test("collapses stale notes when asked to minimize them", async () => {
+    await runAction(workDir, { ...fake.env, "INPUT_STALE-COMMENT-STRATEGY": "minimize" });
+
+    expect(fake.deletedNoteIds).toHaveLength(0);
+    const resolved = fake.updatedNotes.find(({ id }) => id === 101);
+    expect(resolved?.body).toContain("<!-- moon-ci-booster-resolved -->");
+    expect(resolved?.body).toContain(":white_check_mark: Fixed in 0123456");
+  });
+
+  test("finds the change request of the commit in branch pipelines", async () => {
+    const env = { ...fake.env, CI_MERGE_REQUEST_IID: "", BITBUCKET_PR_ID: "" };
+    await runAction(workDir, env);
+
+    expect(fake.requests).toContainEqual(
+      platform === "gitlab"
+        ? "GET /api/v4/projects/123/repository/commits/0123456789abcdef/merge_requests"
+        : "GET /2.0/repositories/test-workspace/test-repo/commit/0123456789abcdef/pullrequests",
+    );
+    expect(fake.createdNotes).toHaveLength(1);
+  });
+});
+
+describe("platform credentials", () => {
+  let fake: FakeReviewPlatform;
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = createWorkspace([{ target: "web:test", stderr: "FAIL src/app.test.ts" }]);
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("sends the access token as a GitLab private token", async () => {
+    fake = await startFakeReviewPlatform("gitlab");
+    await runAction(workDir, fake.env);
+
+    expect(new Set(fake.credentials)).toEqual(new Set(["fake-token-for-tests"]));
+  });
+
+  test("sends Bitbucket app passwords with basic authentication", async () => {
+    fake = await startFakeReviewPlatform("bitbucket");
+    await runAction(workDir, { ...fake.env, "INPUT_ACCESS-TOKEN": "ci-bot:app-password" });
+
+    expect(new Set(fake.credentials)).toEqual(
+      new Set([`Basic ${Buffer.from("ci-bot:app-password").toString("base64")}`]),
+    );
+  });
+
+  test("fails when the chosen platform isn't configured", async () => {
+    fake = await startFakeReviewPlatform("gitlab");
+    const result = await runAction(workDir, { INPUT_PLATFORM: "gitlab" });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout).toContain("The `gitlab` platform requires the `CI_API_V4_URL` and `CI_PROJECT_ID` variables");
+    expect(fake.requests).toHaveLength(0);
+  });
+});
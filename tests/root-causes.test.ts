@@ -0,0 +1,126 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeGitHub, runAction, startFakeGitHub } from "./helpers";
+
+describe("root causes", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      {
+        target: "a:build",
+        stderr: "src/index.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+      },
+      { target: "b:build", status: "failed-and-abort", error: null },
+      { target: "b:test", status: "skipped" },
+      {
+        target: "c:lint",
+        stderr: "lint failed",
+        action: {
+          operations: [{ meta: { type: "task-execution", command: "eslint .", exitCode: 1 }, status: "failed" }],
+        },
+      },
+    ]);
+    github = await startFakeGitHub();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function writeActionGraph(): string {
+    const graphPath = path.join(workDir, "action-graph.json");
+    fs.writeFileSync(
+      graphPath,
+      JSON.stringify({
+        nodes: [
+          { id: 0, label: "SyncWorkspace" },
+          { id: 1, label: "RunTask(a:build)" },
+          { id: 2, label: "SyncProject(b)" },
+          { id: 3, label: "RunTask(b:build)" },
+          { id: 4, label: "RunTask(b:test)" },
+          { id: 5, label: "RunTask(c:lint)" },
+        ],
+        edges: [
+          { id: "2 -> 1", label: "", source: 2, target: 1 },
+          { id: "3 -> 2", label: "", source: 3, target: 2 },
+          { id: "4 -> 3", label: "", source: 4, target: 3 },
+          { id: "5 -> 0", label: "", source: 5, target: 0 },
+        ],
+      }),
+    );
+    return graphPath;
+  }
+
+  test("step summary lists blocked tasks and the failure graph", async () => {
+    const { summary } = await runAction(workDir, { "INPUT_ACTION-GRAPH": writeActionGraph() });
+
+    expect(summary).toMatchSnapshot();
+  });
+
+  test("only root causes get a comment", async () => {
+    await runAction(workDir, { ...github.env, "INPUT_ACTION-GRAPH": writeActionGraph() });
+
+    expect(github.createdComments).toHaveLength(2);
+    expect(github.createdComments[0]).toContain("<!-- moon-ci-booster-all-a:build -->");
+    expect(github.createdComments[0]).toContain("**Blocks:** `b:build`, `b:test`");
+    expect(github.createdComments[1]).toContain("<!-- moon-ci-booster-all-c:lint -->");
+    expect(github.createdComments[1]).not.toContain("**Blocks:**");
+  });
+
+  test("keeps the comment of a task that is now blocked", async () => {
+    const server = await startFakeGitHub({
+      comments: [{ id: 100, node_id: "IC_100", body: "<!-- moon-ci-booster-all-b:build -->\nprevious failure" }],
+    });
+
+    try {
+      await runAction(workDir, {
+        ...server.env,
+        "INPUT_ACTION-GRAPH": writeActionGraph(),
+        "INPUT_STALE-COMMENT-STRATEGY": "edit-resolved",
+      });
+
+      expect(server.createdComments).toHaveLength(2);
+      expect(server.updatedComments).toHaveLength(0);
+      expect(server.deletedCommentIds).toHaveLength(0);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("single comment lists blocked tasks without their logs", async () => {
+    await runAction(workDir, {
+      ...github.env,
+      "INPUT_ACTION-GRAPH": writeActionGraph(),
+      "INPUT_COMMENT-MODE": "single",
+    });
+
+    const comment = github.createdComments[0] as string;
+    expect(comment).toContain("**2 tasks failed**, blocking 2 others");
+    expect(comment).toContain("- `b:test` blocked by `a:build`");
+    expect(comment).not.toContain("<code>b:build</code>");
+  });
+
+  test("falls back to the primary targets that never executed without an action graph", async () => {
+    const reportPath = path.join(workDir, ".moon/cache/ciReport.json");
+    const report = JSON.parse(fs.readFileSync(reportPath, "utf8"));
+    report.context.primaryTargets = ["b:build", "b:test", "c:lint"];
+    fs.writeFileSync(reportPath, JSON.stringify(report));
+
+    await runAction(workDir, { ...github.env, "INPUT_COMMENT-MODE": "single" });
+
+    const comment = github.createdComments[0] as string;
+    expect(comment).toContain("- `b:build` blocked by `a:build`");
+    expect(comment).toContain("- `b:test` blocked by `a:build`");
+    expect(comment).toContain("| `c:lint` |");
+  });
+
+  test("every failure is a root cause when all targets are primary", async () => {
+    await runAction(workDir, github.env);
+
+    expect(github.createdComments).toHaveLength(3);
+  });
+});
@@ -0,0 +1,68 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, runAction } from "./helpers";
+
+function duration(millis: number) {
+  return { secs: Math.floor(millis / 1000), nanos: (millis % 1000) * 1_000_000 };
+}
+
+describe("full run overview", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = createWorkspace([
+      { target: "app:build", status: "passed", action: { duration: duration(12_300) } },
+      { target: "app:lint", status: "cached", action: { duration: duration(40) } },
+      { target: "app:test", status: "cached-from-remote", action: { duration: duration(90) } },
+      { target: "api:build", status: "passed", action: { duration: duration(95_000) } },
+      { target: "api:test", status: "failed", stderr: "boom", action: { duration: duration(2_500) } },
+      { target: "api:e2e", status: "skipped", action: { duration: null } },
+    ]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("renders every task, the slowest ones and totals per status", async () => {
+    const { summary } = await runAction(workDir, { "INPUT_SUMMARY-DETAIL": "full", "INPUT_SLOWEST-TASKS": "2" });
+
+    expect(summary).toMatchSnapshot();
+  });
+
+  test("only failures are summarized by default", async () => {
+    const { summary } = await runAction(workDir);
+
+    expect(summary).not.toContain("Run Overview");
+    expect(summary).toContain("Moon CI Failure Summary");
+  });
+});
+
+test("rounds durations before splitting them into minutes and seconds", async () => {
+  const workDir = createWorkspace([
+    { target: "app:build", status: "passed", action: { duration: duration(119_600) } },
+    { target: "app:test", status: "passed", action: { duration: duration(59_960) } },
+    { target: "app:lint", status: "passed", action: { duration: duration(999.6) } },
+  ]);
+
+  try {
+    const { summary } = await runAction(workDir, { "INPUT_SUMMARY-DETAIL": "full" });
+
+    expect(summary).toContain("| `app:build` | :white_check_mark: passed | miss | 2m 0s |");
+    expect(summary).toContain("| `app:test` | :white_check_mark: passed | miss | 1m 0s |");
+    expect(summary).toContain("| `app:lint` | :white_check_mark: passed | miss | 1.0s |");
+    expect(summary).not.toContain("60s");
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+});
+
+test("green runs get an overview too", async () => {
+  const { summary } = await runAction(path.join(import.meta.dirname, "workspaces/no-failures"), {
+    "INPUT_SUMMARY-DETAIL": "full",
+  });
+
+  expect(summary).toContain("## :bar_chart: Moon CI Run Overview");
+  expect(summary).not.toContain("Moon CI Failure Summary");
+});
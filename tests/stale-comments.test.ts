@@ -0,0 +1,139 @@
+import * as fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeGitHub, runAction, startFakeGitHub } from "./helpers";
+
+describe("stale comment strategy", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([{ target: "web:test", stderr: "FAIL src/app.test.ts" }]);
+    github = await startFakeGitHub({
+      comments: [
+        {
+          id: 100,
+          node_id: "IC_100",
+          body: "<!-- moon-ci-booster-all-web:test -->\nprevious failure",
+          minimized: true,
+        },
+        {
+          id: 101,
+          node_id: "IC_101",
+          body: "<!-- moon-ci-booster-all-api:lint -->\n\n## :x: `api:lint`\n\nlint failed",
+        },
+        {
+          id: 102,
+          node_id: "IC_102",
+          body: "<!-- moon-ci-booster-all-api:build -->\n<!-- moon-ci-booster-resolved -->\n\nalready resolved",
+          minimized: true,
+        },
+        { id: 103, node_id: "IC_103", body: "unrelated comment" },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe("minimize", () => {
+    beforeEach(async () => {
+      await runAction(workDir, { ...github.env, "INPUT_STALE-COMMENT-STRATEGY": "minimize" });
+    });
+
+    test("hides stale comments as outdated instead of deleting them", () => {
+      expect(github.deletedCommentIds).toHaveLength(0);
+
+      const minimized = github.graphqlRequests.filter(({ query }) => /\bminimizeComment\(/.test(query));
+      expect(minimized.map(({ variables }) => variables.id)).toEqual(["IC_101"]);
+      expect(minimized[0]?.query).toContain("classifier: OUTDATED");
+    });
+
+    test("unhides the comment of a target that failed again", () => {
+      const unminimized = github.graphqlRequests.filter(({ query }) => query.includes("unminimizeComment("));
+      expect(unminimized.map(({ variables }) => variables.id)).toEqual(["IC_100"]);
+      expect(github.updatedComments.map(({ id }) => id)).toEqual([100]);
+    });
+
+    test("doesn't hide or show comments that already are", () => {
+      expect(github.graphqlRequests.map(({ variables }) => variables.id)).not.toContain("IC_102");
+      expect(github.graphqlRequests[0]?.variables.ids).toEqual(["IC_100", "IC_101", "IC_102"]);
+    });
+  });
+
+  test("doesn't write comments that are shown and unchanged when minimizing", async () => {
+    // The first run brings the comment up to date, the second one has nothing left to do
+    await runAction(workDir, { ...github.env, "INPUT_STALE-COMMENT-STRATEGY": "minimize" });
+    const body = github.updatedComments[0]?.body ?? "";
+    const shown = await startFakeGitHub({ comments: [{ id: 100, node_id: "IC_100", body }] });
+
+    try {
+      await runAction(workDir, { ...shown.env, "INPUT_STALE-COMMENT-STRATEGY": "minimize" });
+
+      expect(shown.requests.filter((request) => !request.startsWith("GET") && !request.endsWith("/graphql"))).toEqual(
+        [],
+      );
+      expect(shown.graphqlRequests.map(({ query }) => query)).toEqual([expect.stringContaining("nodes(ids:")]);
+    } finally {
+      await shown.close();
+    }
+  });
+
+  describe("edit-resolved", () => {
+    beforeEach(async () => {
+      await runAction(workDir, {
+        ...github.env,
+        "INPUT_STALE-COMMENT-STRATEGY": "edit-resolved",
+        GITHUB_SHA: "0123456789abcdef",
+      });
+    });
+
+    test("collapses stale comments into a note keeping their token", () => {
+      expect(github.deletedCommentIds).toHaveLength(0);
+
+      const resolved = github.updatedComments.find(({ id }) => id === 101);
+      expect(resolved?.body).toMatchSnapshot();
+    });
+
+    test("leaves comments that are already resolved alone", () => {
+      expect(github.updatedComments.map(({ id }) => id)).toEqual([100, 101]);
+    });
+  });
+
+  test("only marks the comments of targets that passed as resolved", async () => {
+    const grouped = createWorkspace([
+      { target: "web:test", stderr: "FAIL src/app.test.ts" },
+      { target: "api:test", stderr: "FAIL src/app.test.ts" },
+    ]);
+    const server = await startFakeGitHub({
+      comments: [
+        { id: 100, node_id: "IC_100", body: "<!-- moon-ci-booster-all-api:test -->\nprevious failure" },
+        { id: 101, node_id: "IC_101", body: "<!-- moon-ci-booster-all-api:lint -->\nprevious failure" },
+      ],
+    });
+
+    try {
+      await runAction(grouped, {
+        ...server.env,
+        "INPUT_STALE-COMMENT-STRATEGY": "edit-resolved",
+        GITHUB_SHA: "0123456789abcdef",
+      });
+
+      // api:test still fails, in the comment of web:test
+      expect(server.createdComments[0]).toContain("**Same failure in:** `api:test`");
+      expect(server.updatedComments.map(({ id }) => id)).toEqual([101]);
+      expect(server.updatedComments[0]?.body).toContain("Fixed in");
+    } finally {
+      await server.close();
+      fs.rmSync(grouped, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects unknown strategies", async () => {
+    const result = await runAction(workDir, { ...github.env, "INPUT_STALE-COMMENT-STRATEGY": "archive" });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(github.createdComments).toHaveLength(0);
+  });
+});
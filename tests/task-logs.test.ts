@@ -0,0 +1,98 @@
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeGitHub, runAction, startFakeGitHub } from "./helpers";
+
+function writeLog(workDir: string, directory: string, fileName: string, contents: string) {
+  fs.mkdirSync(path.join(workDir, directory), { recursive: true });
+  fs.writeFileSync(path.join(workDir, directory, fileName), contents);
+}
+
+describe("task logs", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      {
+        target: "web:test",
+        stderr: "stale log from the state directory",
+        action: {
+          operations: [
+            { meta: { type: "task-execution", stdout: null, stderr: "first attempt" }, status: "failed" },
+            { meta: { type: "task-execution", stdout: "", stderr: "FAIL captured in the report" }, status: "failed" },
+          ],
+        },
+      },
+      {
+        target: "cli:test",
+        stderr: "error from the state directory",
+        action: {
+          operations: [{ meta: { type: "task-execution", stdout: "", stderr: "" }, status: "failed" }],
+        },
+      },
+      { target: "app:lint/js", stderr: "error from a nested task ID" },
+      { target: "app:lint/css" },
+      { target: "~:build" },
+      {
+        target: "api:test",
+        action: { operations: [{ meta: { type: "hash-generation", hash: "5f1d2c" }, status: "passed" }] },
+      },
+      { target: "docs:build" },
+    ]);
+
+    const states = ".moon/cache/states";
+    fs.rmSync(path.join(workDir, states, "~"), { recursive: true });
+    fs.rmSync(path.join(workDir, states, "api"), { recursive: true });
+    fs.rmSync(path.join(workDir, states, "docs"), { recursive: true });
+    fs.rmSync(path.join(workDir, states, "app/lint/css"), { recursive: true });
+    writeLog(workDir, `${states}/app/lint-css`, "stderr.log", "error from a flattened task ID");
+    writeLog(workDir, `${states}/web/build`, "stderr.log", "error from another project");
+
+    // Archive the logs the way moon stores them with the outputs of a task
+    const archiveDir = fs.mkdtempSync(path.join(workDir, "archive-"));
+    writeLog(archiveDir, `${states}/api/test`, "stdout.log", "");
+    writeLog(archiveDir, `${states}/api/test`, "stderr.log", "error from the output archive");
+    fs.mkdirSync(path.join(workDir, ".moon/cache/outputs"));
+    execFileSync("tar", ["-czf", path.join(workDir, ".moon/cache/outputs/5f1d2c.tar.gz"), "-C", archiveDir, ".moon"]);
+
+    github = await startFakeGitHub();
+    await runAction(workDir, github.env);
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const commentOf = (target: string) => github.createdComments.find((body) => body.includes(`\`${target}\``)) ?? "";
+
+  test("prefers the output captured in the report", () => {
+    expect(commentOf("web:test")).toContain("FAIL captured in the report");
+    expect(commentOf("web:test")).not.toContain("stale log");
+  });
+
+  test("falls back to the state directory when the report has empty output", () => {
+    expect(commentOf("cli:test")).toContain("error from the state directory");
+  });
+
+  test("reads nested and flattened task IDs from the state directory", () => {
+    expect(commentOf("app:lint/js")).toContain("error from a nested task ID");
+    expect(commentOf("app:lint/css")).toContain("error from a flattened task ID");
+  });
+
+  test("doesn't guess the project of scoped targets", () => {
+    expect(commentOf("~:build")).not.toContain("error from another project");
+    expect(commentOf("~:build")).toContain("_No logs were found for this task");
+  });
+
+  test("falls back to the output archive", () => {
+    expect(commentOf("api:test")).toContain("error from the output archive");
+  });
+
+  test("says when no logs were found", () => {
+    expect(commentOf("docs:build")).toContain("_No logs were found for this task in the run report or moon's cache._");
+    expect(commentOf("api:test")).not.toContain("_No logs were found");
+  });
+});
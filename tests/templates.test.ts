@@ -0,0 +1,119 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeGitHub, runAction, startFakeGitHub } from "./helpers";
+
+describe("templates", () => {
+  let github: FakeGitHub;
+  let workDir: string;
+  let env: Record<string, string>;
+
+  beforeEach(async () => {
+    workDir = createWorkspace([
+      { target: "web:test", stderr: "FAIL src/app.test.ts", stdout: "Running 3 tests" },
+      { target: "api:lint", error: "Process eslint failed with a 1 exit code.", stdout: "2 problems" },
+    ]);
+    fs.mkdirSync(path.join(workDir, ".github"));
+
+    github = await startFakeGitHub();
+    env = {
+      ...github.env,
+      GITHUB_WORKSPACE: workDir,
+      GITHUB_SERVER_URL: "https://github.com",
+      GITHUB_RUN_ID: "1234",
+      GITHUB_SHA: "0123abc",
+    };
+  });
+
+  afterEach(async () => {
+    await github.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("renders comments from the comment template", async () => {
+    fs.writeFileSync(
+      path.join(workDir, ".github/comment.md"),
+      [
+        "{{! Rendered for every failed task }}",
+        "### {{task}} failed in {{project}}",
+        "{{#error}}",
+        "> {{error}}",
+        "{{/error}}",
+        "{{^error}}",
+        "> No error was reported.",
+        "{{/error}}",
+        "",
+        "Took {{duration}} on {{sha}}, see [the run]({{runUrl}}).",
+        "",
+        "```",
+        "{{stdout}}",
+        "```",
+        "",
+      ].join("\n"),
+    );
+
+    const result = await runAction(workDir, { ...env, "INPUT_COMMENT-TEMPLATE": ".github/comment.md" });
+
+    expect(result.exitCode).toBe(0);
+    expect(github.createdComments).toMatchSnapshot();
+  });
+
+  test("renders the step summary from the summary template", async () => {
+    fs.writeFileSync(
+      path.join(workDir, ".github/summary.md"),
+      [
+        "## {{count}} failures in {{jobGroup}}",
+        "",
+        "{{#failures}}",
+        "- `{{target}}`: {{#error}}{{error}}{{/error}}{{^error}}no error{{/error}}",
+        "{{/failures}}",
+        "",
+      ].join("\n"),
+    );
+
+    const result = await runAction(workDir, {
+      ...env,
+      "INPUT_SUMMARY-TEMPLATE": ".github/summary.md",
+      "INPUT_JOB-GROUP": "unit",
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.summary).toBe(
+      [
+        "## 2 failures in unit",
+        "",
+        "- `web:test`: Task web:test failed.",
+        "- `api:lint`: Process eslint failed with a 1 exit code.",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("fails before commenting on an unknown variable", async () => {
+    fs.writeFileSync(path.join(workDir, ".github/comment.md"), "## {{target}}\n\n{{#failures}}{{eror}}{{/failures}}\n");
+
+    const result = await runAction(workDir, { ...env, "INPUT_COMMENT-TEMPLATE": ".github/comment.md" });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout).toContain(
+      `::error::Invalid template ${path.join(workDir, ".github/comment.md")} on line 3: unknown variable "failures"`,
+    );
+    expect(github.createdComments).toEqual([]);
+  });
+
+  test("fails on an unclosed section", async () => {
+    fs.writeFileSync(path.join(workDir, ".github/summary.md"), "{{#failures}}\n- {{target}}\n");
+
+    const result = await runAction(workDir, { ...env, "INPUT_SUMMARY-TEMPLATE": ".github/summary.md" });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout).toContain("on line 1: {{#failures}} is never closed.");
+  });
+
+  test("fails on a missing template", async () => {
+    const result = await runAction(workDir, { ...env, "INPUT_COMMENT-TEMPLATE": ".github/missing.md" });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout).toContain('::error::Invalid `comment-template` input ".github/missing.md"');
+  });
+});
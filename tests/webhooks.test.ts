@@ -0,0 +1,167 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createWorkspace, type FakeWebhook, readOutput, runAction, startFakeWebhook } from "./helpers";
+
+describe("webhook notifications", () => {
+  let webhook: FakeWebhook;
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = createWorkspace([
+      { target: "web:test", stderr: "FAIL src/app.test.ts\nExpected <App /> to render" },
+      { target: "web:lint", status: "passed" },
+      { target: "api:build", error: "Process exited with code 2", stderr: "error TS2304: Cannot find name 'x'." },
+    ]);
+  });
+
+  afterEach(async () => {
+    await webhook.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const run = (env: Record<string, string> = {}) =>
+    runAction(workDir, {
+      "INPUT_NOTIFY-WEBHOOK": webhook.url,
+      GITHUB_REF_NAME: "main",
+      GITHUB_SHA: "4444444ddddddd",
+      GITHUB_ACTOR: "octocat",
+      ...env,
+    });
+
+  test("posts a JSON digest of the failures", async () => {
+    webhook = await startFakeWebhook();
+    const result = await run();
+
+    expect(readOutput(result.output, "notification-sent")).toBe("true");
+    expect(webhook.payloads).toEqual([
+      {
+        title: "2 tasks failed on main",
+        branch: "main",
+        sha: "4444444ddddddd",
+        author: "octocat",
+        runUrl: null,
+        jobGroup: "",
+        failures: [
+          {
+            target: "web:test",
+            error: "Task web:test failed.",
+            baseline: null,
+            excerpt: "FAIL src/app.test.ts\nExpected <App /> to render",
+          },
+          {
+            target: "api:build",
+            error: "Process exited with code 2",
+            baseline: null,
+            excerpt: "error TS2304: Cannot find name 'x'.",
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("posts Slack blocks", async () => {
+    webhook = await startFakeWebhook();
+    await run({ "INPUT_NOTIFY-WEBHOOK-FORMAT": "slack" });
+
+    const [payload] = webhook.payloads;
+    expect(payload).toHaveProperty("text", "2 tasks failed on main");
+    expect(payload).toHaveProperty("blocks.1", {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: "`4444444` by octocat" }],
+    });
+    expect(payload).toHaveProperty(
+      "blocks.2.text.text",
+      "*`web:test`*\nTask web:test failed.\n```FAIL src/app.test.ts\nExpected &lt;App /&gt; to render```",
+    );
+  });
+
+  test("posts a Teams Adaptive Card", async () => {
+    webhook = await startFakeWebhook();
+    await run({ "INPUT_NOTIFY-WEBHOOK-FORMAT": "msteams" });
+
+    const [payload] = webhook.payloads;
+    expect(payload).toHaveProperty("attachments.0.contentType", "application/vnd.microsoft.card.adaptive");
+    expect(payload).toHaveProperty("attachments.0.content.type", "AdaptiveCard");
+    expect(payload).toHaveProperty("attachments.0.content.body.1", {
+      type: "FactSet",
+      facts: [
+        { title: "Commit", value: "4444444" },
+        { title: "Author", value: "octocat" },
+      ],
+    });
+    expect(payload).toHaveProperty(
+      "attachments.0.content.body",
+      expect.arrayContaining([expect.objectContaining({ text: "api:build" })]),
+    );
+  });
+
+  test("retries with a backoff when the webhook fails", async () => {
+    webhook = await startFakeWebhook({ failures: [503] });
+    const result = await run();
+
+    expect(webhook.payloads).toHaveLength(2);
+    expect(result.stdout).toContain("Sending the notification failed, the webhook responded with 503: unavailable.");
+    expect(readOutput(result.output, "notification-sent")).toBe("true");
+  });
+
+  test("retries when asked to by a Retry-After date", async () => {
+    webhook = await startFakeWebhook({ failures: [429], retryAfter: new Date(Date.now() - 1000).toUTCString() });
+    const result = await run();
+
+    expect(webhook.payloads).toHaveLength(2);
+    expect(result.stdout).toContain("Retrying in 0s");
+    expect(readOutput(result.output, "notification-sent")).toBe("true");
+  });
+
+  test("doesn't wait for a Retry-After longer than a minute", async () => {
+    webhook = await startFakeWebhook({ failures: [429], retryAfter: "3600" });
+    const result = await run();
+
+    expect(webhook.payloads).toHaveLength(1);
+    expect(result.stdout).toContain("asking to retry in 3600s");
+    expect(readOutput(result.output, "notification-sent")).toBe("false");
+  });
+
+  test("warns without retrying when the webhook rejects the payload", async () => {
+    webhook = await startFakeWebhook({ failures: [400] });
+    const result = await run();
+
+    expect(webhook.payloads).toHaveLength(1);
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("::warning::Failed to send the notification, the webhook responded with 400");
+    expect(result.stdout).toContain(`::add-mask::${webhook.url}`);
+    expect(readOutput(result.output, "notification-sent")).toBe("false");
+  });
+
+  test("only notifies runs of the default branch and its merge queue when asked to", async () => {
+    webhook = await startFakeWebhook();
+    const env = { "INPUT_NOTIFY-BRANCHES": "default" };
+
+    await run({ ...env, GITHUB_REF_NAME: "feature" });
+    expect(webhook.payloads).toHaveLength(0);
+
+    await run({ ...env, GITHUB_REF_NAME: "gh-readonly-queue/main/pr-12-0123456" });
+    expect(webhook.payloads).toHaveLength(1);
+  });
+
+  test("only notifies new failures when asked to", async () => {
+    webhook = await startFakeWebhook();
+    const baselineDir = createWorkspace([{ target: "web:test" }, { target: "api:build", status: "passed" }]);
+
+    try {
+      await run({
+        "INPUT_NOTIFY-FAILURES": "new",
+        "INPUT_BASELINE-REPORT": path.join(baselineDir, ".moon/cache/ciReport.json"),
+      });
+    } finally {
+      fs.rmSync(baselineDir, { recursive: true, force: true });
+    }
+
+    expect(webhook.payloads).toHaveLength(1);
+    expect(webhook.payloads[0]).toMatchObject({
+      title: "1 task failed on main",
+      failures: [{ target: "api:build", baseline: "new" }],
+    });
+  });
+});